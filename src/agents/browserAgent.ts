@@ -3,11 +3,38 @@ import { VercelAIProvider } from "@voltagent/vercel-ai";
 import { GroqProvider } from "@voltagent/groq-ai";
 import { mistral } from "@ai-sdk/mistral";
 import {
+  launchBrowserTool,
+  connectBrowserTool,
+  listBrowserSessionsTool,
   navigationTool,
   goBackTool,
   goForwardTool,
   refreshPageTool,
   closeBrowserTool,
+  listTabsTool,
+  newTabTool,
+  switchTabTool,
+  closeTabTool,
+  waitForPopupTool,
+  listFramesTool,
+  setDialogPolicyTool,
+  getDialogsTool,
+  saveStorageStateTool,
+  loadStorageStateTool,
+  getCookiesTool,
+  setCookiesTool,
+  clearCookiesTool,
+  deleteCookieTool,
+  mockRouteTool,
+  abortRouteTool,
+  modifyRouteTool,
+  listRoutesTool,
+  clearRoutesTool,
+  startHarRecordingTool,
+  stopHarRecordingTool,
+  getNetworkLogTool,
+  startTracingTool,
+  stopTracingTool,
   clickTool,
   typeTool,
   getTextTool,
@@ -17,18 +44,42 @@ import {
   hoverTool,
   pressKeyTool,
   waitForElementTool,
+  dragAndDropTool,
+  scrollTool,
+  mouseClickAtTool,
+  mouseMovePathTool,
   saveToFileTool,
   exportPdfTool,
   extractDataTool,
+  uploadFileTool,
+  captureDownloadTool,
   expectResponseTool,
   assertResponseTool,
+  expectVisibleTool,
+  expectHiddenTool,
+  expectTextTool,
+  expectValueTool,
+  expectCountTool,
+  expectAttributeTool,
+  expectCheckedTool,
+  expectURLTool,
+  expectTitleTool,
   screenshotTool,
-  setUserAgentTool,
+  compareScreenshotTool,
+  emulateDeviceTool,
   getUserAgentTool,
   getVisibleTextTool,
   getVisibleHtmlTool,
   listInteractiveElementsTool,
+  pageSnapshotTool,
+  markedScreenshotTool,
+  clickMarkTool,
+  typeIntoMarkTool,
+  hoverMarkTool,
+  videoRecorderHooks,
+  withToolResultImages,
 } from "../tools/browser";
+import { withCodegenRecording } from "../tools/codegen";
 
 const agentPrompt = createPrompt({
   template: `You are an AI agent specialized in web automation with Playwright.
@@ -75,9 +126,16 @@ export const browserAgent = new Agent({
   description:
     "You are an advanced web automation assistant with comprehensive capabilities. You can navigate websites, interact with page elements (clicking, typing, selecting options), capture screenshots, extract and process data, perform checks on responses, manipulate user agents, and export content in various formats.",
   llm: new VercelAIProvider(),
-  model: mistral("mistral-large-latest"),
+  // Screenshots reach the model as images, so it needs a vision model
+  model: withToolResultImages(mistral("pixtral-large-latest")),
   //prompt: { agentPrompt },
-  tools: [
+  // Tool calls are recorded into the active codegen session (if any)
+  tools: withCodegenRecording([
+    // Launch tools
+    launchBrowserTool,
+    connectBrowserTool,
+    listBrowserSessionsTool,
+
     // Navigation tools
     navigationTool,
     goBackTool,
@@ -85,6 +143,48 @@ export const browserAgent = new Agent({
     refreshPageTool,
     closeBrowserTool,
 
+    // Tab tools
+    listTabsTool,
+    newTabTool,
+    switchTabTool,
+    closeTabTool,
+    waitForPopupTool,
+
+    // Frame tools
+    listFramesTool,
+
+    // Dialog tools
+    setDialogPolicyTool,
+    getDialogsTool,
+
+    // Storage state tools
+    saveStorageStateTool,
+    loadStorageStateTool,
+
+    // Cookie tools
+    getCookiesTool,
+    setCookiesTool,
+    clearCookiesTool,
+    deleteCookieTool,
+
+    // Network route tools
+    mockRouteTool,
+    abortRouteTool,
+    modifyRouteTool,
+    listRoutesTool,
+    clearRoutesTool,
+
+    // HAR tools
+    startHarRecordingTool,
+    stopHarRecordingTool,
+
+    // Network log tools
+    getNetworkLogTool,
+
+    // Tracing tools
+    startTracingTool,
+    stopTracingTool,
+
     //Interaction tools
     clickTool,
     typeTool,
@@ -95,26 +195,55 @@ export const browserAgent = new Agent({
     hoverTool,
     pressKeyTool,
     waitForElementTool,
+    dragAndDropTool,
+    scrollTool,
+    mouseClickAtTool,
+    mouseMovePathTool,
 
     //Output tools
     saveToFileTool,
     exportPdfTool,
     extractDataTool,
 
+    // File upload and download tools
+    uploadFileTool,
+    captureDownloadTool,
+
     // Response tools
     expectResponseTool,
     assertResponseTool,
 
-    // Screenshot tool
+    // Assertion tools
+    expectVisibleTool,
+    expectHiddenTool,
+    expectTextTool,
+    expectValueTool,
+    expectCountTool,
+    expectAttributeTool,
+    expectCheckedTool,
+    expectURLTool,
+    expectTitleTool,
+
+    // Screenshot tools
     screenshotTool,
+    compareScreenshotTool,
 
-    // User agent tools
-    setUserAgentTool,
+    // Emulation and user agent tools
+    emulateDeviceTool,
     getUserAgentTool,
 
     // Visibility tools
     getVisibleTextTool,
     getVisibleHtmlTool,
     listInteractiveElementsTool,
-  ],
+    pageSnapshotTool,
+
+    // Set-of-marks tools
+    markedScreenshotTool,
+    clickMarkTool,
+    typeIntoMarkTool,
+    hoverMarkTool,
+  ]),
+  // Time every tool call for the video recording of the session
+  hooks: videoRecorderHooks,
 });
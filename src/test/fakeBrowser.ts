@@ -0,0 +1,152 @@
+/**
+ * @file Fake Browser
+ * @description Browser, context and page doubles for testing the session
+ * lifecycle without launching a browser
+ *
+ * Only what the session code calls is implemented. Like Playwright, closing a
+ * context closes its pages and writes the HAR file it records to.
+ */
+
+import { EventEmitter } from "node:events";
+import * as fs from "node:fs";
+import {
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  Page,
+} from "playwright";
+import { DEFAULT_BROWSER_CONFIG } from "../tools/browser/browserConfig";
+import { recreateBrowserContext } from "../tools/browser/playwrightToolHandler";
+import { browserSessions } from "../tools/browser/sessionManager";
+import { BrowserSession, ToolContext } from "../tools/common/types";
+
+/**
+ * Page that keeps its URL and routes
+ */
+export class FakePage extends EventEmitter {
+  closed = false;
+  currentUrl = "about:blank";
+  routes: unknown[] = [];
+
+  constructor(readonly browserContext: FakeBrowserContext) {
+    super();
+  }
+
+  url(): string {
+    return this.currentUrl;
+  }
+
+  async goto(url: string): Promise<null> {
+    if (this.closed) {
+      throw new Error("Target page, context or browser has been closed");
+    }
+    this.currentUrl = url;
+    return null;
+  }
+
+  async route(matcher: unknown): Promise<void> {
+    this.routes.push(matcher);
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  async close(): Promise<void> {
+    if (!this.closed) {
+      this.closed = true;
+      this.emit("close", this);
+    }
+  }
+}
+
+/**
+ * Browser context that writes an empty HAR file when it records one
+ */
+export class FakeBrowserContext extends EventEmitter {
+  readonly openedPages: FakePage[] = [];
+  closed = false;
+
+  constructor(readonly options: BrowserContextOptions) {
+    super();
+  }
+
+  pages(): Page[] {
+    return this.openedPages.filter((page) => !page.closed) as unknown as Page[];
+  }
+
+  async newPage(): Promise<Page> {
+    const page = new FakePage(this);
+    this.openedPages.push(page);
+    this.emit("page", page);
+    return page as unknown as Page;
+  }
+
+  async storageState() {
+    return { cookies: [], origins: [] };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const page of this.openedPages) {
+      await page.close();
+    }
+    if (this.options.recordHar) {
+      fs.writeFileSync(
+        this.options.recordHar.path,
+        JSON.stringify({ log: { entries: [] } })
+      );
+    }
+  }
+}
+
+/**
+ * Browser that creates fake contexts
+ */
+export class FakeBrowser extends EventEmitter {
+  readonly openedContexts: FakeBrowserContext[] = [];
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  contexts(): BrowserContext[] {
+    return this.openedContexts as unknown as BrowserContext[];
+  }
+
+  async newContext(options: BrowserContextOptions = {}) {
+    const browserContext = new FakeBrowserContext(options);
+    this.openedContexts.push(browserContext);
+    return browserContext as unknown as BrowserContext;
+  }
+
+  async newPage(): Promise<Page> {
+    return (await this.newContext()).newPage();
+  }
+
+  async close(): Promise<void> {
+    for (const browserContext of this.openedContexts) {
+      await browserContext.close();
+    }
+  }
+}
+
+/**
+ * Open a session of the given ID on a fake browser, with a context of its own
+ */
+export async function openFakeSession(sessionId: string): Promise<{
+  toolContext: ToolContext;
+  session: BrowserSession;
+  browser: FakeBrowser;
+}> {
+  const toolContext: ToolContext = { browserSessionId: sessionId };
+  const session = browserSessions.getOrCreateSession(toolContext);
+  const browser = new FakeBrowser();
+  session.browser = browser as unknown as Browser;
+  session.browserConfig = { ...DEFAULT_BROWSER_CONFIG };
+
+  // The first page is opened outside of a session context: replace it
+  await recreateBrowserContext(toolContext, {});
+
+  return { toolContext, session, browser };
+}
@@ -0,0 +1,154 @@
+/**
+ * @file Fake Frame
+ * @description Frame double running page functions in a sandbox, for testing
+ * what is evaluated in the page without launching a browser
+ *
+ * Like Playwright, the frame runs functions from their source, in a context
+ * of their own: helpers of the test runner (such as the __name of tsx) are not
+ * defined there. The sandbox has a minimal DOM, built with fakeElement and
+ * fakeText.
+ */
+
+import * as vm from "node:vm";
+import { Frame } from "playwright";
+
+// Minimal DOM of the sandbox: the classes the page functions test against
+const DOM_SOURCE = `
+class Node {}
+Node.TEXT_NODE = 3;
+class Element extends Node {
+  constructor(tagName, attributes, childNodes) {
+    super();
+    this.nodeType = 1;
+    this.tagName = tagName;
+    this.attributes = { ...attributes };
+    this.childNodes = childNodes;
+    this.shadowRoot = null;
+    this.parentElement = null;
+    childNodes.forEach((child) => { child.parentElement = this; });
+  }
+  getAttribute(name) { return this.attributes[name] ?? null; }
+  hasAttribute(name) { return name in this.attributes; }
+  setAttribute(name, value) { this.attributes[name] = String(value); }
+  removeAttribute(name) { delete this.attributes[name]; }
+  querySelectorAll() { return []; }
+  closest() { return null; }
+  get textContent() { return this.childNodes.map((child) => child.textContent).join(""); }
+}
+class HTMLElement extends Element {}
+const TAG_CLASSES = {
+  A: "HTMLAnchorElement", AREA: "HTMLAreaElement", BUTTON: "HTMLButtonElement",
+  DATALIST: "HTMLDataListElement", IMG: "HTMLImageElement",
+  INPUT: "HTMLInputElement", OPTION: "HTMLOptionElement",
+  SELECT: "HTMLSelectElement", TEXTAREA: "HTMLTextAreaElement",
+};
+for (const name of Object.values(TAG_CLASSES)) {
+  globalThis[name] = class extends HTMLElement {};
+}
+const window = globalThis;
+window.getComputedStyle = () => ({ display: "block", visibility: "visible" });
+`;
+
+/**
+ * Frame evaluating functions in a sandbox, and the document element there
+ */
+export interface FakeFrame {
+  frame: Frame;
+  documentElement: FakeElement;
+}
+
+/**
+ * Element of the sandbox DOM
+ */
+export interface FakeElement {
+  tagName: string;
+  attributes: Record<string, string>;
+  childNodes: FakeElement[];
+}
+
+/**
+ * Description of an element of the sandbox DOM
+ */
+export interface FakeNode {
+  tag?: string;
+  attributes?: Record<string, string>;
+  children?: FakeNode[];
+  text?: string;
+}
+
+/**
+ * Describe an element
+ */
+export function fakeElement(
+  tag: string,
+  attributes: Record<string, string> = {},
+  children: FakeNode[] = []
+): FakeNode {
+  return { tag, attributes, children };
+}
+
+/**
+ * Describe a text node
+ */
+export function fakeText(text: string): FakeNode {
+  return { text };
+}
+
+/**
+ * Handle of a value of the sandbox
+ */
+class FakeHandle {
+  constructor(readonly value: unknown) {}
+
+  async dispose(): Promise<void> {}
+}
+
+/**
+ * Replace the handles of an argument by their values, as Playwright does
+ */
+function unbox(arg: unknown): unknown {
+  if (arg instanceof FakeHandle) {
+    return arg.value;
+  }
+  if (Array.isArray(arg)) {
+    return arg.map(unbox);
+  }
+  if (arg && typeof arg === "object") {
+    return Object.fromEntries(
+      Object.entries(arg).map(([key, value]) => [key, unbox(value)])
+    );
+  }
+  return arg;
+}
+
+/**
+ * Create a frame whose document element is built from a description
+ */
+export function createFakeFrame(documentElement: FakeNode): FakeFrame {
+  const sandbox = vm.createContext({});
+  vm.runInContext(DOM_SOURCE, sandbox);
+  sandbox.description = documentElement;
+  const root = vm.runInContext(
+    `(() => {
+      const build = (node) => node.tag === undefined
+        ? { nodeType: Node.TEXT_NODE, textContent: node.text }
+        : new (globalThis[TAG_CLASSES[node.tag]] ?? HTMLElement)(
+            node.tag, node.attributes, node.children.map(build));
+      const documentElement = build(description);
+      globalThis.document = { documentElement, querySelectorAll: () => [] };
+      return documentElement;
+    })()`,
+    sandbox
+  );
+
+  // Run functions from their source, in the sandbox
+  const run = (source: string) => vm.runInContext(`(${source})`, sandbox);
+  const frame = {
+    evaluateHandle: async (source: string) => new FakeHandle(run(source)),
+    // Results are serialized, as they are sent back from the page
+    evaluate: async (pageFunction: (arg: unknown) => unknown, arg: unknown) =>
+      JSON.parse(JSON.stringify(run(pageFunction.toString())(unbox(arg)))),
+  };
+
+  return { frame: frame as unknown as Frame, documentElement: root };
+}
@@ -0,0 +1,117 @@
+/**
+ * @file ARIA Roles
+ * @description Role of an element, shared by page snapshots, selector
+ * synthesis and selector healing
+ *
+ * The explicit role attribute wins; otherwise the role implied by the tag
+ * follows the rules of Playwright's role selectors, so that refs, synthesized
+ * getByRole locators and healing agree on the role of an element.
+ * getAriaRole runs in the browser: loadAriaRole creates it in a frame (see
+ * pageFunction.ts), and the handle is passed as an argument to the functions
+ * evaluated there.
+ */
+
+import { Frame, JSHandle } from "playwright";
+import { loadPageFunction } from "./pageFunction";
+
+/**
+ * Role of an element, undefined when it has none
+ */
+export type AriaRoleFunction = (el: Element) => string | undefined;
+
+/**
+ * Role of an element (runs in the browser, so it must be self-contained)
+ */
+export function getAriaRole(el: Element): string | undefined {
+  const INPUT_ROLES: Record<string, string> = {
+    button: "button",
+    submit: "button",
+    reset: "button",
+    image: "button",
+    file: "button",
+    checkbox: "checkbox",
+    radio: "radio",
+    range: "slider",
+    number: "spinbutton",
+  };
+  const TAG_ROLES: Record<string, string> = {
+    BUTTON: "button",
+    TEXTAREA: "textbox",
+    OPTION: "option",
+    H1: "heading",
+    H2: "heading",
+    H3: "heading",
+    H4: "heading",
+    H5: "heading",
+    H6: "heading",
+    NAV: "navigation",
+    MAIN: "main",
+    ASIDE: "complementary",
+    ARTICLE: "article",
+    FORM: "form",
+    DIALOG: "dialog",
+    FIELDSET: "group",
+    UL: "list",
+    OL: "list",
+    MENU: "list",
+    LI: "listitem",
+    TABLE: "table",
+    TR: "row",
+    TH: "columnheader",
+    TD: "cell",
+    PROGRESS: "progressbar",
+  };
+
+  const explicit = el.getAttribute("role")?.trim().split(/\s+/)[0];
+  if (explicit) {
+    return explicit === "presentation" || explicit === "none"
+      ? undefined
+      : explicit;
+  }
+
+  if (el instanceof HTMLInputElement) {
+    const type = el.type.toLowerCase();
+    if (type === "hidden") {
+      return undefined;
+    }
+    // Inputs with a suggestion list are comboboxes
+    const list = el.list instanceof HTMLDataListElement;
+    if (type === "search") {
+      return list ? "combobox" : "searchbox";
+    }
+    if (["text", "email", "tel", "url", ""].includes(type)) {
+      return list ? "combobox" : "textbox";
+    }
+    return INPUT_ROLES[type] ?? "textbox";
+  }
+  if (el instanceof HTMLSelectElement) {
+    return el.multiple || el.size > 1 ? "listbox" : "combobox";
+  }
+  if (el instanceof HTMLAnchorElement || el instanceof HTMLAreaElement) {
+    return el.hasAttribute("href") ? "link" : undefined;
+  }
+  if (el instanceof HTMLImageElement) {
+    return el.getAttribute("alt") === "" ? undefined : "img";
+  }
+  if (el.tagName === "HEADER" || el.tagName === "FOOTER") {
+    if (el.parentElement?.closest("article, aside, main, nav, section")) {
+      return undefined;
+    }
+    return el.tagName === "HEADER" ? "banner" : "contentinfo";
+  }
+  if (el.tagName === "SECTION") {
+    return el.hasAttribute("aria-label") || el.hasAttribute("aria-labelledby")
+      ? "region"
+      : undefined;
+  }
+  return TAG_ROLES[el.tagName];
+}
+
+/**
+ * Create getAriaRole in a frame (the caller disposes of the handle)
+ */
+export function loadAriaRole(
+  frame: Frame
+): Promise<JSHandle<AriaRoleFunction>> {
+  return loadPageFunction(frame, getAriaRole);
+}
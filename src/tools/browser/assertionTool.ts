@@ -0,0 +1,494 @@
+/**
+ * @file Browser Assertion Tools
+ * @description VoltAgent tools asserting the state of the page with Playwright's expect
+ *
+ * Assertions retry until they pass or their timeout expires, like the
+ * expect() statements they become in generated tests. A failed hard
+ * assertion fails the tool; a failed soft assertion is reported in the
+ * result ({ passed: false, expected, actual }) so the agent can carry on.
+ * Unlike the other element tools, raw selectors are strict: they must match
+ * exactly one element (except for expectCount).
+ */
+
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { expect } from "playwright/test";
+import { Locator } from "playwright";
+import { ToolContext } from "../common/types";
+import { safeBrowserOperation } from "./browserBaseTools";
+import { locatorParameter, refParameter } from "./elementLocator";
+import { resolveElement, ResolvedElement } from "./elementResolver";
+import { frameParameter } from "./frameManager";
+
+/**
+ * How an expected text matches the actual one
+ */
+export type TextMatchMode = "exact" | "contains" | "regex";
+
+/**
+ * Outcome of an assertion
+ */
+export interface AssertionResult {
+  passed: boolean;
+  assertion: string;
+  soft: boolean;
+  expected?: unknown;
+  actual?: unknown;
+  message: string;
+}
+
+/**
+ * Escape a string to match it literally in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build the string or regular expression an expected text is matched with
+ * (strings are matched exactly, regular expressions partially)
+ */
+export function toTextMatcher(
+  text: string,
+  match: TextMatchMode = "exact",
+  ignoreCase = false
+): string | RegExp {
+  const flags = ignoreCase ? "i" : "";
+  if (match === "regex") {
+    return new RegExp(text, flags);
+  }
+  if (match === "contains" || ignoreCase) {
+    return new RegExp(
+      match === "contains" ? escapeRegExp(text) : `^${escapeRegExp(text)}$`,
+      flags
+    );
+  }
+  return text;
+}
+
+/**
+ * Run a Playwright assertion, reporting its outcome (hard assertions that
+ * fail throw instead)
+ */
+async function runAssertion(
+  assertion: string,
+  soft: boolean,
+  expected: unknown,
+  assert: () => Promise<void>
+): Promise<AssertionResult> {
+  try {
+    await assert();
+    return {
+      passed: true,
+      assertion,
+      soft,
+      expected,
+      message: `Assertion ${assertion} passed`,
+    };
+  } catch (error) {
+    const matcherResult = (
+      error as { matcherResult?: { actual?: unknown; message?: string } }
+    ).matcherResult;
+    // Playwright colors its messages for terminals
+    const details = (
+      matcherResult?.message ??
+      (error instanceof Error ? error.message : String(error))
+    ).replace(/\u001b\[\d+m/g, "");
+    const message = `Assertion ${assertion} failed: ${details}`;
+
+    if (!soft) {
+      throw new Error(message);
+    }
+    return {
+      passed: false,
+      assertion,
+      soft,
+      expected,
+      actual: matcherResult?.actual,
+      message,
+    };
+  }
+}
+
+// Parameters shared by all assertion tools
+const assertionParameters = {
+  soft: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "Report a failure in the result instead of failing the tool (expect.soft)"
+    ),
+  timeout: z
+    .number()
+    .positive()
+    .optional()
+    .default(5000)
+    .describe("Time in milliseconds to retry the assertion until it passes"),
+};
+
+// Parameters of the assertion tools targeting an element
+const elementParameters = {
+  selector: z
+    .string()
+    .optional()
+    .describe(
+      "CSS or XPath selector of the element, matching exactly one element (or use locator or ref)"
+    ),
+  locator: locatorParameter,
+  ref: refParameter,
+  frame: frameParameter,
+  ...assertionParameters,
+};
+
+const matchParameter = z
+  .enum(["exact", "contains", "regex"])
+  .optional()
+  .default("exact")
+  .describe(
+    "Match the whole text, a part of it, or a regular expression (pattern without slashes)"
+  );
+
+const ignoreCaseParameter = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe("Ignore case when matching");
+
+/**
+ * Resolve the element of an assertion tool, raw selectors being strict
+ */
+function resolveAssertedElement(
+  target: ResolvedElement,
+  args: { selector?: string; locator?: unknown; ref?: string }
+): Locator {
+  return args.ref || args.locator
+    ? target.element
+    : target.frame.locator(args.selector!);
+}
+
+/**
+ * Build the result of an assertion tool on an element
+ */
+function elementResult(assertion: AssertionResult, target: ResolvedElement) {
+  return {
+    result: assertion.message,
+    ...assertion,
+    frameSelectors: target.frameSelectors,
+    ref: target.ref,
+  };
+}
+
+/**
+ * Tool for asserting that an element is visible
+ */
+export const expectVisibleTool = createTool({
+  name: "expectVisible",
+  description: "Assert that an element is visible on the page",
+  parameters: z.object(elementParameters),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const element = resolveAssertedElement(target, args);
+      const assertion = await runAssertion(
+        `expectVisible(${target.description})`,
+        args.soft,
+        "visible",
+        () => expect(element).toBeVisible({ timeout: args.timeout })
+      );
+
+      return elementResult(assertion, target);
+    });
+  },
+});
+
+/**
+ * Tool for asserting that an element is hidden or not on the page
+ */
+export const expectHiddenTool = createTool({
+  name: "expectHidden",
+  description: "Assert that an element is hidden or not on the page",
+  parameters: z.object(elementParameters),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const element = resolveAssertedElement(target, args);
+      const assertion = await runAssertion(
+        `expectHidden(${target.description})`,
+        args.soft,
+        "hidden",
+        () => expect(element).toBeHidden({ timeout: args.timeout })
+      );
+
+      return elementResult(assertion, target);
+    });
+  },
+});
+
+/**
+ * Tool for asserting the text of an element
+ */
+export const expectTextTool = createTool({
+  name: "expectText",
+  description:
+    "Assert the text of an element (whole text, part of it or a regular expression)",
+  parameters: z.object({
+    ...elementParameters,
+    text: z.string().describe("Expected text, or pattern with match 'regex'"),
+    match: matchParameter,
+    ignoreCase: ignoreCaseParameter,
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const element = resolveAssertedElement(target, args);
+      const options = { timeout: args.timeout, ignoreCase: args.ignoreCase };
+      const assertion = await runAssertion(
+        `expectText(${target.description})`,
+        args.soft,
+        args.text,
+        () =>
+          args.match === "contains"
+            ? expect(element).toContainText(args.text, options)
+            : expect(element).toHaveText(
+                toTextMatcher(args.text, args.match),
+                options
+              )
+      );
+
+      return elementResult(assertion, target);
+    });
+  },
+});
+
+/**
+ * Tool for asserting the value of an input, textarea or select
+ */
+export const expectValueTool = createTool({
+  name: "expectValue",
+  description: "Assert the value of an input, textarea or select element",
+  parameters: z.object({
+    ...elementParameters,
+    value: z.string().describe("Expected value, or pattern with match 'regex'"),
+    match: matchParameter,
+    ignoreCase: ignoreCaseParameter,
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const element = resolveAssertedElement(target, args);
+      const assertion = await runAssertion(
+        `expectValue(${target.description})`,
+        args.soft,
+        args.value,
+        () =>
+          expect(element).toHaveValue(
+            toTextMatcher(args.value, args.match, args.ignoreCase),
+            { timeout: args.timeout }
+          )
+      );
+
+      return elementResult(assertion, target);
+    });
+  },
+});
+
+/**
+ * Tool for asserting the number of elements matching a selector or locator
+ */
+export const expectCountTool = createTool({
+  name: "expectCount",
+  description: "Assert the number of elements matching a selector or locator",
+  parameters: z.object({
+    ...elementParameters,
+    count: z.number().int().min(0).describe("Expected number of elements"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const element = resolveAssertedElement(target, args);
+      const assertion = await runAssertion(
+        `expectCount(${target.description})`,
+        args.soft,
+        args.count,
+        () => expect(element).toHaveCount(args.count, { timeout: args.timeout })
+      );
+
+      return elementResult(assertion, target);
+    });
+  },
+});
+
+/**
+ * Tool for asserting an attribute of an element
+ */
+export const expectAttributeTool = createTool({
+  name: "expectAttribute",
+  description:
+    "Assert that an element has an attribute, optionally with a given value",
+  parameters: z.object({
+    ...elementParameters,
+    name: z.string().describe("Name of the attribute"),
+    value: z
+      .string()
+      .optional()
+      .describe(
+        "Expected value (or pattern with match 'regex'); omit to only check that the attribute is present"
+      ),
+    match: matchParameter,
+    ignoreCase: ignoreCaseParameter,
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const element = resolveAssertedElement(target, args);
+      const { value } = args;
+      const assertion = await runAssertion(
+        `expectAttribute(${target.description}, ${args.name})`,
+        args.soft,
+        value,
+        () =>
+          value === undefined
+            ? expect(element).toHaveAttribute(args.name, {
+                timeout: args.timeout,
+              })
+            : expect(element).toHaveAttribute(
+                args.name,
+                toTextMatcher(value, args.match, args.ignoreCase),
+                { timeout: args.timeout }
+              )
+      );
+
+      return elementResult(assertion, target);
+    });
+  },
+});
+
+/**
+ * Tool for asserting that a checkbox or radio button is checked or not
+ */
+export const expectCheckedTool = createTool({
+  name: "expectChecked",
+  description: "Assert that a checkbox or radio button is checked (or not)",
+  parameters: z.object({
+    ...elementParameters,
+    checked: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Whether the element should be checked"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const element = resolveAssertedElement(target, args);
+      const assertion = await runAssertion(
+        `expectChecked(${target.description})`,
+        args.soft,
+        args.checked,
+        () =>
+          expect(element).toBeChecked({
+            checked: args.checked,
+            timeout: args.timeout,
+          })
+      );
+
+      return elementResult(assertion, target);
+    });
+  },
+});
+
+/**
+ * Tool for asserting the URL of the page
+ */
+export const expectURLTool = createTool({
+  name: "expectURL",
+  description:
+    "Assert the URL of the page (whole URL, part of it or a regular expression)",
+  parameters: z.object({
+    url: z.string().describe("Expected URL, or pattern with match 'regex'"),
+    match: matchParameter,
+    ignoreCase: ignoreCaseParameter,
+    ...assertionParameters,
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page) => {
+      const assertion = await runAssertion(
+        "expectURL",
+        args.soft,
+        args.url,
+        () =>
+          expect(page).toHaveURL(
+            toTextMatcher(args.url, args.match, args.ignoreCase),
+            { timeout: args.timeout }
+          )
+      );
+
+      return { result: assertion.message, ...assertion };
+    });
+  },
+});
+
+/**
+ * Tool for asserting the title of the page
+ */
+export const expectTitleTool = createTool({
+  name: "expectTitle",
+  description:
+    "Assert the title of the page (whole title, part of it or a regular expression)",
+  parameters: z.object({
+    title: z.string().describe("Expected title, or pattern with match 'regex'"),
+    match: matchParameter,
+    ignoreCase: ignoreCaseParameter,
+    ...assertionParameters,
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page) => {
+      const assertion = await runAssertion(
+        "expectTitle",
+        args.soft,
+        args.title,
+        () =>
+          expect(page).toHaveTitle(
+            toTextMatcher(args.title, args.match, args.ignoreCase),
+            { timeout: args.timeout }
+          )
+      );
+
+      return { result: assertion.message, ...assertion };
+    });
+  },
+});
+
+/**
+ * Export all assertion tools as a group
+ */
+export const assertionTools = {
+  expectVisibleTool,
+  expectHiddenTool,
+  expectTextTool,
+  expectValueTool,
+  expectCountTool,
+  expectAttributeTool,
+  expectCheckedTool,
+  expectURLTool,
+  expectTitleTool,
+};
@@ -13,21 +13,23 @@
  */
 
 import { Browser, Page } from "playwright";
-import { ToolContext } from "../common/types";
+import { BrowserSession, ToolContext } from "../common/types";
 import { ensureBrowser, resetBrowserState } from "./playwrightToolHandler";
 
 /**
  * Safe browser operation function to handle errors consistently across all browser tools
  * This wraps operations with proper error handling and browser initialization
+ * The session lock is released once the browser is ready: the operation
+ * itself may run alongside other tool calls of the same session
  */
 export async function safeBrowserOperation<T>(
   context: ToolContext,
-  operation: (page: Page) => Promise<T>
+  operation: (page: Page, session: BrowserSession) => Promise<T>
 ): Promise<T> {
   try {
     // Use the ensureBrowser function from playwrightToolHandler.ts
-    const { page } = await ensureBrowser(context);
-    return await operation(page);
+    const { page, session } = await ensureBrowser(context);
+    return await operation(page, session);
   } catch (error) {
     console.error("Browser operation failed:", error);
     throw error;
@@ -0,0 +1,251 @@
+/**
+ * @file Browser Launch Configuration
+ * @description Resolves the browser launch configuration from env vars and config files
+ *
+ * Configuration is merged in the following order (later wins):
+ * - Built-in defaults (chromium, headed, 1280x720)
+ * - JSON config file (BROWSER_CONFIG_PATH or ./browser.config.json)
+ * - Environment variables (BROWSER_ENGINE, BROWSER_HEADLESS, ...)
+ *
+ * Set replayFromHar (BROWSER_REPLAY_HAR) to run a whole session offline from a
+ * recorded HAR file.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { chromium, firefox, webkit, BrowserType } from "playwright";
+import { BrowserEngine, BrowserLaunchConfig } from "../common/types";
+
+// Default config file looked up in the working directory
+const DEFAULT_CONFIG_FILE = "browser.config.json";
+
+/**
+ * Default launch configuration
+ */
+export const DEFAULT_BROWSER_CONFIG: BrowserLaunchConfig = {
+  engine: "chromium",
+  headless: false,
+  slowMo: 40,
+  viewport: {
+    width: 1280,
+    height: 720,
+  },
+  deviceScaleFactor: 1,
+  args: [],
+};
+
+/**
+ * Schema for a partial launch configuration (config file, env vars or tool arguments)
+ */
+export const browserLaunchConfigSchema = z.object({
+  engine: z
+    .enum(["chromium", "firefox", "webkit"])
+    .optional()
+    .describe("Browser engine to launch"),
+  headless: z.boolean().optional().describe("Run the browser without a UI"),
+  slowMo: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("Slow down each operation by this many milliseconds"),
+  viewport: z
+    .object({
+      width: z.number().positive(),
+      height: z.number().positive(),
+    })
+    .optional()
+    .describe("Viewport size of the browser context"),
+  deviceScaleFactor: z
+    .number()
+    .positive()
+    .optional()
+    .describe("Device scale factor of the browser context"),
+  executablePath: z
+    .string()
+    .optional()
+    .describe("Path to a browser executable to use instead of the bundled one"),
+  args: z
+    .array(z.string())
+    .optional()
+    .describe("Additional command line arguments passed to the browser"),
+  storageState: z
+    .string()
+    .optional()
+    .describe(
+      "Name of a saved storage state profile to start the browser signed in"
+    ),
+  replayFromHar: z
+    .string()
+    .optional()
+    .describe(
+      "Path of a HAR file to serve all responses from (offline replay)"
+    ),
+  harNotFound: z
+    .enum(["abort", "fallback"])
+    .optional()
+    .describe(
+      "What to do with requests missing from the HAR: abort them or fall back to the network"
+    ),
+  traceAll: z
+    .boolean()
+    .optional()
+    .describe("Record a Playwright trace of every session automatically"),
+  recordVideo: z
+    .boolean()
+    .optional()
+    .describe(
+      "Record a video of every tab along with the timeline of tool calls"
+    ),
+  connectEndpoint: z
+    .string()
+    .optional()
+    .describe(
+      "Endpoint of a running browser to connect to instead of launching one: a CDP URL (http://localhost:9222) or a Playwright server websocket (ws://...)"
+    ),
+  connectProtocol: z
+    .enum(["cdp", "playwright"])
+    .optional()
+    .describe(
+      "Protocol of the connect endpoint (guessed from the endpoint if not set)"
+    ),
+  selfHealing: z
+    .boolean()
+    .optional()
+    .describe(
+      "Retry element tools on the closest matching element when their selector times out"
+    ),
+});
+
+export type PartialBrowserLaunchConfig = z.infer<
+  typeof browserLaunchConfigSchema
+>;
+
+/**
+ * Merge partial configurations on top of a base configuration
+ */
+export function mergeBrowserConfig(
+  base: BrowserLaunchConfig,
+  ...overrides: PartialBrowserLaunchConfig[]
+): BrowserLaunchConfig {
+  return overrides.reduce<BrowserLaunchConfig>(
+    (config, override) => ({
+      ...config,
+      ...Object.fromEntries(
+        Object.entries(override).filter(([, value]) => value !== undefined)
+      ),
+      viewport: override.viewport
+        ? { ...config.viewport, ...override.viewport }
+        : config.viewport,
+    }),
+    base
+  );
+}
+
+/**
+ * Read the JSON config file, if one exists
+ */
+function readConfigFile(env: NodeJS.ProcessEnv): PartialBrowserLaunchConfig {
+  const filePath = path.resolve(env.BROWSER_CONFIG_PATH || DEFAULT_CONFIG_FILE);
+
+  if (!fs.existsSync(filePath)) {
+    if (env.BROWSER_CONFIG_PATH) {
+      throw new Error(`Browser config file not found: ${filePath}`);
+    }
+    return {};
+  }
+
+  try {
+    const content = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    return browserLaunchConfigSchema.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid browser config file ${filePath}: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Parse a boolean environment variable
+ */
+function parseBoolean(value: string | undefined): boolean | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  return ["1", "true", "yes"].includes(value.toLowerCase());
+}
+
+/**
+ * Parse a numeric environment variable
+ */
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Read the launch configuration from environment variables
+ */
+function readEnvConfig(env: NodeJS.ProcessEnv): PartialBrowserLaunchConfig {
+  const width = parseNumber(env.BROWSER_VIEWPORT_WIDTH);
+  const height = parseNumber(env.BROWSER_VIEWPORT_HEIGHT);
+
+  return browserLaunchConfigSchema.parse({
+    engine: env.BROWSER_ENGINE || undefined,
+    headless: parseBoolean(env.BROWSER_HEADLESS),
+    slowMo: parseNumber(env.BROWSER_SLOW_MO),
+    viewport:
+      width !== undefined || height !== undefined
+        ? {
+            width: width ?? DEFAULT_BROWSER_CONFIG.viewport.width,
+            height: height ?? DEFAULT_BROWSER_CONFIG.viewport.height,
+          }
+        : undefined,
+    deviceScaleFactor: parseNumber(env.BROWSER_DEVICE_SCALE_FACTOR),
+    executablePath: env.BROWSER_EXECUTABLE_PATH || undefined,
+    args: env.BROWSER_ARGS
+      ? env.BROWSER_ARGS.split(",")
+          .map((arg) => arg.trim())
+          .filter(Boolean)
+      : undefined,
+    storageState: env.BROWSER_STORAGE_STATE || undefined,
+    replayFromHar: env.BROWSER_REPLAY_HAR || undefined,
+    harNotFound: env.BROWSER_HAR_NOT_FOUND || undefined,
+    traceAll: parseBoolean(env.BROWSER_TRACE),
+    recordVideo: parseBoolean(env.BROWSER_RECORD_VIDEO),
+    connectEndpoint: env.BROWSER_CONNECT_ENDPOINT || undefined,
+    connectProtocol: env.BROWSER_CONNECT_PROTOCOL || undefined,
+    selfHealing: parseBoolean(env.BROWSER_SELF_HEALING),
+  });
+}
+
+/**
+ * Load the browser launch configuration from the config file and env vars
+ */
+export function loadBrowserConfig(
+  env: NodeJS.ProcessEnv = process.env
+): BrowserLaunchConfig {
+  return mergeBrowserConfig(
+    DEFAULT_BROWSER_CONFIG,
+    readConfigFile(env),
+    readEnvConfig(env)
+  );
+}
+
+/**
+ * Get the Playwright browser type for an engine
+ */
+export function getBrowserType(engine: BrowserEngine): BrowserType {
+  switch (engine) {
+    case "firefox":
+      return firefox;
+    case "webkit":
+      return webkit;
+    case "chromium":
+    default:
+      return chromium;
+  }
+}
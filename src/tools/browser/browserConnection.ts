@@ -0,0 +1,87 @@
+/**
+ * @file Browser Connection
+ * @description Connects to browsers that are already running and releases session browsers
+ *
+ * A browser can be driven over the Chrome DevTools Protocol (e.g. a Chrome
+ * started with --remote-debugging-port=9222, already logged in by a human) or
+ * through a Playwright browser server websocket. Browsers the agent connected
+ * to are only disconnected from, never closed.
+ */
+
+import { Browser, chromium } from "playwright";
+import { BrowserLaunchConfig, BrowserSession } from "../common/types";
+import { getBrowserType } from "./browserConfig";
+import { saveSessionTrace } from "./traceRecorder";
+
+/**
+ * Get the protocol of the connect endpoint: CDP for http(s) URLs and DevTools
+ * websockets, the Playwright protocol for other websockets
+ */
+export function getConnectProtocol(
+  config: BrowserLaunchConfig
+): "cdp" | "playwright" {
+  if (config.connectProtocol) {
+    return config.connectProtocol;
+  }
+
+  const endpoint = config.connectEndpoint ?? "";
+  return /^https?:/i.test(endpoint) || endpoint.includes("/devtools/browser/")
+    ? "cdp"
+    : "playwright";
+}
+
+/**
+ * Connect to the running browser of the connect endpoint
+ */
+export async function connectToBrowser(
+  config: BrowserLaunchConfig
+): Promise<Browser> {
+  if (!config.connectEndpoint) {
+    throw new Error("No connect endpoint configured");
+  }
+
+  if (getConnectProtocol(config) === "cdp") {
+    if (config.engine !== "chromium") {
+      throw new Error(
+        `CDP connections are only supported by chromium, not ${config.engine}`
+      );
+    }
+    return chromium.connectOverCDP(config.connectEndpoint, {
+      slowMo: config.slowMo,
+    });
+  }
+
+  return getBrowserType(config.engine).connect(config.connectEndpoint, {
+    slowMo: config.slowMo,
+  });
+}
+
+/**
+ * Close the browser of a session, or only disconnect from it (closing the
+ * context the agent created, if any) when the agent connected to it
+ */
+export async function releaseBrowser(session: BrowserSession): Promise<void> {
+  const browser = session.browser;
+  if (!browser?.isConnected()) {
+    return;
+  }
+
+  await saveSessionTrace(session);
+
+  if (session.connected && session.ownsContext) {
+    await session.browserContext?.close().catch((error) => {
+      console.error(
+        `Error while closing browser context of session ${session.id}:`,
+        error
+      );
+    });
+  }
+
+  // For connected browsers, close() only disconnects
+  await browser.close().catch((error) => {
+    console.error(
+      `Error while closing browser of session ${session.id}:`,
+      error
+    );
+  });
+}
@@ -0,0 +1,187 @@
+/**
+ * @file Browser Cookie Tools
+ * @description Tools for inspecting and changing the cookies of the browser context
+ */
+
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { ToolContext } from "../common/types";
+import { safeBrowserOperation } from "./browserBaseTools";
+
+/**
+ * Schema for a cookie to set
+ */
+const cookieSchema = z.object({
+  name: z.string().describe("Cookie name"),
+  value: z.string().describe("Cookie value"),
+  url: z
+    .string()
+    .optional()
+    .describe("URL the cookie applies to (alternative to domain + path)"),
+  domain: z.string().optional().describe("Cookie domain, e.g. '.example.com'"),
+  path: z.string().optional().describe("Cookie path, e.g. '/'"),
+  expires: z
+    .number()
+    .optional()
+    .describe("Unix time in seconds when the cookie expires"),
+  httpOnly: z.boolean().optional().describe("HTTP only cookie"),
+  secure: z.boolean().optional().describe("Secure cookie"),
+  sameSite: z
+    .enum(["Strict", "Lax", "None"])
+    .optional()
+    .describe("SameSite attribute"),
+});
+
+/**
+ * Tool for reading cookies
+ */
+export const getCookiesTool = createTool({
+  name: "getCookies",
+  description:
+    "Get the cookies of the browser, optionally filtered by domain and/or name",
+  parameters: z.object({
+    domain: z
+      .string()
+      .optional()
+      .describe("Only return cookies whose domain contains this value"),
+    name: z.string().optional().describe("Only return cookies with this name"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page) => {
+      const cookies = (await page.context().cookies()).filter(
+        (cookie) =>
+          (!args.domain || cookie.domain.includes(args.domain)) &&
+          (!args.name || cookie.name === args.name)
+      );
+
+      return {
+        result: `Found ${cookies.length} cookie(s)`,
+        cookies,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for adding or updating cookies
+ */
+export const setCookiesTool = createTool({
+  name: "setCookies",
+  description:
+    "Add or update cookies in the browser. Each cookie needs either a url or a domain and path.",
+  parameters: z.object({
+    cookies: z.array(cookieSchema).min(1).describe("Cookies to set"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page) => {
+      for (const cookie of args.cookies) {
+        if (!cookie.url && !(cookie.domain && cookie.path)) {
+          throw new Error(
+            `Cookie "${cookie.name}" needs either a url or a domain and path`
+          );
+        }
+      }
+
+      await page.context().addCookies(args.cookies);
+
+      return {
+        result: `Set ${args.cookies.length} cookie(s): ${args.cookies
+          .map((cookie) => cookie.name)
+          .join(", ")}`,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for clearing cookies
+ */
+export const clearCookiesTool = createTool({
+  name: "clearCookies",
+  description:
+    "Clear all cookies of the browser, or only the ones matching a domain and/or path",
+  parameters: z.object({
+    domain: z
+      .string()
+      .optional()
+      .describe("Only clear cookies with this domain"),
+    path: z.string().optional().describe("Only clear cookies with this path"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page) => {
+      const browserContext = page.context();
+      const before = (await browserContext.cookies()).length;
+      await browserContext.clearCookies({
+        domain: args.domain,
+        path: args.path,
+      });
+      const after = (await browserContext.cookies()).length;
+
+      return {
+        result: `Cleared ${before - after} cookie(s)`,
+        clearedCount: before - after,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for deleting a single cookie
+ */
+export const deleteCookieTool = createTool({
+  name: "deleteCookie",
+  description:
+    "Delete a cookie by name, optionally limited to a domain and path",
+  parameters: z.object({
+    name: z.string().describe("Name of the cookie to delete"),
+    domain: z.string().optional().describe("Domain of the cookie"),
+    path: z.string().optional().describe("Path of the cookie"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page) => {
+      const browserContext = page.context();
+      const matches = (await browserContext.cookies()).filter(
+        (cookie) =>
+          cookie.name === args.name &&
+          (!args.domain || cookie.domain === args.domain) &&
+          (!args.path || cookie.path === args.path)
+      );
+
+      if (matches.length === 0) {
+        return {
+          result: `No cookie found with name: ${args.name}`,
+          deletedCount: 0,
+        };
+      }
+
+      await browserContext.clearCookies({
+        name: args.name,
+        domain: args.domain,
+        path: args.path,
+      });
+
+      return {
+        result: `Deleted ${matches.length} cookie(s) named ${args.name}`,
+        deletedCount: matches.length,
+      };
+    });
+  },
+});
+
+/**
+ * Export all cookie tools as a group
+ */
+export const cookieTools = {
+  getCookiesTool,
+  setCookiesTool,
+  clearCookiesTool,
+  deleteCookieTool,
+};
@@ -0,0 +1,112 @@
+/**
+ * @file Browser Dialog Management
+ * @description Answers JavaScript dialogs (alert, confirm, prompt, beforeunload) by policy
+ *
+ * A dialog handler is registered on every page of the browser context as soon
+ * as it is created, so dialogs never block the page until a tool times out.
+ * Dialogs are answered by the first matching "once" policy, then the most
+ * recent matching "always" policy, and are dismissed otherwise. Every dialog
+ * is recorded in the session so the agent can report it.
+ */
+
+import { BrowserContext, Dialog, Page } from "playwright";
+import { BrowserState, DialogPolicy, DialogRecord } from "../common/types";
+import { findTabId } from "./tabManager";
+
+// Maximum number of dialogs kept per session
+const MAX_DIALOG_LOG_SIZE = 100;
+
+// Policy applied when no policy matches a dialog
+const DEFAULT_DIALOG_POLICY: DialogPolicy = {
+  action: "dismiss",
+  mode: "always",
+};
+
+/**
+ * Add a dialog policy to the session
+ */
+export function addDialogPolicy(
+  state: BrowserState,
+  policy: DialogPolicy
+): void {
+  // A new "always" policy replaces the previous one for the same dialog type
+  const policies = (state.dialogPolicies ?? []).filter(
+    (existing) =>
+      policy.mode === "once" ||
+      existing.mode === "once" ||
+      existing.dialogType !== policy.dialogType
+  );
+  state.dialogPolicies = [...policies, policy];
+}
+
+/**
+ * Pick the policy answering a dialog, consuming it if it applies once
+ */
+function takeDialogPolicy(state: BrowserState, dialog: Dialog): DialogPolicy {
+  const policies = state.dialogPolicies ?? [];
+  const matches = (policy: DialogPolicy) =>
+    !policy.dialogType || policy.dialogType === dialog.type();
+
+  const oncePolicy = policies.find(
+    (policy) => policy.mode === "once" && matches(policy)
+  );
+  if (oncePolicy) {
+    state.dialogPolicies = policies.filter((policy) => policy !== oncePolicy);
+    return oncePolicy;
+  }
+
+  const alwaysPolicies = policies.filter(
+    (policy) => policy.mode === "always" && matches(policy)
+  );
+  return alwaysPolicies[alwaysPolicies.length - 1] ?? DEFAULT_DIALOG_POLICY;
+}
+
+/**
+ * Answer a dialog by policy and record it
+ */
+async function handleDialog(
+  state: BrowserState,
+  page: Page,
+  dialog: Dialog
+): Promise<void> {
+  const policy = takeDialogPolicy(state, dialog);
+
+  const record: DialogRecord = {
+    tabId: findTabId(state, page),
+    type: dialog.type(),
+    message: dialog.message(),
+    defaultValue: dialog.defaultValue() || undefined,
+    action: policy.action,
+    promptText: policy.action === "accept" ? policy.promptText : undefined,
+    timestamp: new Date().toISOString(),
+  };
+  state.dialogLog = [...(state.dialogLog ?? []), record].slice(
+    -MAX_DIALOG_LOG_SIZE
+  );
+
+  try {
+    if (policy.action === "accept") {
+      await dialog.accept(policy.promptText);
+    } else {
+      await dialog.dismiss();
+    }
+  } catch (error) {
+    // The page may have been closed while the dialog was open
+    console.error("Failed to answer dialog:", error);
+  }
+}
+
+/**
+ * Answer the dialogs of all existing and future pages of a browser context
+ */
+export function attachDialogHandler(
+  state: BrowserState,
+  browserContext: BrowserContext
+): void {
+  const registerPage = (page: Page) => {
+    page.on("dialog", (dialog) => handleDialog(state, page, dialog));
+  };
+
+  browserContext.pages().forEach(registerPage);
+  browserContext.on("page", registerPage);
+}
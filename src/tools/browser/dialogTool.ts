@@ -0,0 +1,101 @@
+/**
+ * @file Browser Dialog Tools
+ * @description VoltAgent tools for answering and reporting JavaScript dialogs
+ */
+
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { ToolContext } from "../common/types";
+import { addDialogPolicy } from "./dialogManager";
+import { getBrowserSession } from "./playwrightToolHandler";
+
+/**
+ * Tool for setting how JavaScript dialogs are answered
+ */
+export const setDialogPolicyTool = createTool({
+  name: "setDialogPolicy",
+  description:
+    "Set how JavaScript dialogs (alert, confirm, prompt, beforeunload) are answered: accept, dismiss or respond with text, for the next dialog or all of them. Dialogs are dismissed by default.",
+  parameters: z.object({
+    action: z
+      .enum(["accept", "dismiss"])
+      .describe("Accept (OK) or dismiss (Cancel) the dialog"),
+    promptText: z
+      .string()
+      .optional()
+      .describe("Text to enter into prompt dialogs when accepting"),
+    mode: z
+      .enum(["once", "always"])
+      .optional()
+      .default("always")
+      .describe("Answer only the next dialog, or every dialog from now on"),
+    dialogType: z
+      .enum(["alert", "confirm", "prompt", "beforeunload"])
+      .optional()
+      .describe("Only answer dialogs of this type (defaults to all types)"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    try {
+      const session = getBrowserSession(toolContext);
+      addDialogPolicy(session, {
+        action: args.action,
+        promptText: args.promptText,
+        mode: args.mode,
+        dialogType: args.dialogType,
+      });
+
+      return {
+        result: `${args.action === "accept" ? "Accepting" : "Dismissing"} ${
+          args.mode === "once" ? "the next" : "all"
+        } ${args.dialogType ?? ""} dialog${args.mode === "once" ? "" : "s"}`
+          .replace(/\s+/g, " ")
+          .trim(),
+        policies: session.dialogPolicies,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to set dialog policy: ${(error as Error).message}`
+      );
+    }
+  },
+});
+
+/**
+ * Tool for listing the dialogs that appeared
+ */
+export const getDialogsTool = createTool({
+  name: "getDialogs",
+  description:
+    "List the JavaScript dialogs that appeared, with their type, message and how they were answered",
+  parameters: z.object({
+    clear: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Clear the recorded dialogs after listing them"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    const session = getBrowserSession(toolContext);
+    const dialogs = session.dialogLog ?? [];
+    if (args.clear) {
+      session.dialogLog = undefined;
+    }
+
+    return {
+      result: `${dialogs.length} dialog(s) appeared`,
+      dialogs,
+    };
+  },
+});
+
+/**
+ * Export all dialog tools as a group
+ */
+export const dialogTools = {
+  setDialogPolicyTool,
+  getDialogsTool,
+};
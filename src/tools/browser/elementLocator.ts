@@ -0,0 +1,186 @@
+/**
+ * @file Element Locators
+ * @description Resolves the element targeted by an element tool
+ *
+ * Element tools take either a raw CSS/XPath selector or a structured locator
+ * such as { role: "button", name: "Save" } or { label: "Email" }, resolved
+ * through page.getByRole() and related APIs. formatLocator() renders the same
+ * locator as Playwright code for results and the code generator.
+ */
+
+import { z } from "zod";
+import { Frame, Locator } from "playwright";
+import { ElementLocator } from "../common/types";
+
+/**
+ * Schema of the locator parameter shared by the element tools
+ */
+export const locatorParameter = z
+  .object({
+    role: z
+      .string()
+      .optional()
+      .describe("ARIA role (button, link, textbox, checkbox, heading, ...)"),
+    name: z
+      .string()
+      .optional()
+      .describe("Accessible name of the element with the role"),
+    exact: z
+      .boolean()
+      .optional()
+      .describe("Match name, label, placeholder, text or altText exactly"),
+    label: z.string().optional().describe("Text of the associated label"),
+    placeholder: z.string().optional().describe("Placeholder text"),
+    text: z.string().optional().describe("Text content"),
+    testId: z.string().optional().describe("data-testid attribute"),
+    altText: z.string().optional().describe("Alt text of an image"),
+    nth: z
+      .number()
+      .int()
+      .optional()
+      .describe("Index of the match to use (0-based, -1 for the last)"),
+    has: z
+      .string()
+      .optional()
+      .describe(
+        "Only match elements containing an element matching this selector"
+      ),
+    hasText: z
+      .string()
+      .optional()
+      .describe("Only match elements containing this text"),
+  })
+  .optional()
+  .describe(
+    "Semantic locator of the element, preferred over selector (e.g. { role: 'button', name: 'Save' } or { label: 'Email' })"
+  );
+
+/**
+ * Schema of the ref parameter shared by the element tools
+ */
+export const refParameter = z
+  .string()
+  .optional()
+  .describe(
+    "Reference of an element of the last pageSnapshot (e.g. e42), preferred over selector and locator"
+  );
+
+/**
+ * Resolve the element of a tool from its selector or locator
+ */
+export function resolveLocator(
+  frame: Frame,
+  selector?: string,
+  locator?: ElementLocator
+): Locator {
+  if (!selector && !locator) {
+    throw new Error("Provide a selector, a locator or a ref");
+  }
+
+  const exact = locator?.exact;
+  let element: Locator;
+  if (locator?.role) {
+    element = frame.getByRole(
+      locator.role as Parameters<Frame["getByRole"]>[0],
+      { name: locator.name, exact }
+    );
+  } else if (locator?.label) {
+    element = frame.getByLabel(locator.label, { exact });
+  } else if (locator?.placeholder) {
+    element = frame.getByPlaceholder(locator.placeholder, { exact });
+  } else if (locator?.text) {
+    element = frame.getByText(locator.text, { exact });
+  } else if (locator?.testId) {
+    element = frame.getByTestId(locator.testId);
+  } else if (locator?.altText) {
+    element = frame.getByAltText(locator.altText, { exact });
+  } else if (selector) {
+    element = frame.locator(selector);
+  } else {
+    throw new Error(
+      "The locator needs one of role, label, placeholder, text, testId or altText"
+    );
+  }
+
+  if (locator?.has || locator?.hasText) {
+    element = element.filter({
+      has: locator.has ? frame.locator(locator.has) : undefined,
+      hasText: locator.hasText,
+    });
+  }
+
+  if (locator?.nth !== undefined) {
+    return locator.nth === -1 ? element.last() : element.nth(locator.nth);
+  }
+
+  // Raw selectors act on the first match, like page.click(selector)
+  return locator ? element : element.first();
+}
+
+/**
+ * Quote a string for generated code
+ */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Render the Playwright code of a selector or locator, e.g.
+ * page.getByRole('button', { name: 'Save' })
+ */
+export function formatLocator(
+  scope: string,
+  selector?: string,
+  locator?: ElementLocator
+): string {
+  const exact = locator?.exact ? ", { exact: true }" : "";
+  let code: string;
+
+  if (locator?.role) {
+    const options = [
+      locator.name !== undefined ? `name: ${quote(locator.name)}` : "",
+      locator.exact ? "exact: true" : "",
+    ].filter(Boolean);
+    code = `${scope}.getByRole(${quote(locator.role)}${
+      options.length ? `, { ${options.join(", ")} }` : ""
+    })`;
+  } else if (locator?.label) {
+    code = `${scope}.getByLabel(${quote(locator.label)}${exact})`;
+  } else if (locator?.placeholder) {
+    code = `${scope}.getByPlaceholder(${quote(locator.placeholder)}${exact})`;
+  } else if (locator?.text) {
+    code = `${scope}.getByText(${quote(locator.text)}${exact})`;
+  } else if (locator?.testId) {
+    code = `${scope}.getByTestId(${quote(locator.testId)})`;
+  } else if (locator?.altText) {
+    code = `${scope}.getByAltText(${quote(locator.altText)}${exact})`;
+  } else {
+    code = `${scope}.locator(${quote(selector ?? "")})`;
+  }
+
+  if (locator?.has || locator?.hasText) {
+    const filters = [
+      locator.has ? `has: ${scope}.locator(${quote(locator.has)})` : "",
+      locator.hasText ? `hasText: ${quote(locator.hasText)}` : "",
+    ].filter(Boolean);
+    code += `.filter({ ${filters.join(", ")} })`;
+  }
+
+  if (locator?.nth !== undefined) {
+    code += locator.nth === -1 ? ".last()" : `.nth(${locator.nth})`;
+  }
+
+  return code;
+}
+
+/**
+ * Describe the element of a tool for result messages
+ */
+export function describeElement(
+  selector?: string,
+  locator?: ElementLocator
+): string {
+  return locator
+    ? `element ${formatLocator("page", selector, locator)}`
+    : `element with selector: ${selector}`;
+}
@@ -0,0 +1,100 @@
+/**
+ * @file Element Resolution
+ * @description Resolves the element targeted by an element tool
+ *
+ * The element tools target an element by (in order of precedence):
+ * - the ref of an element of the last page snapshot (see pageSnapshot.ts),
+ *   which also gets a robust selector for code generation
+ *   (see selectorSynthesizer.ts)
+ * - a semantic locator or a selector in a frame (see elementLocator.ts)
+ */
+
+import { Frame, Locator, Page } from "playwright";
+import { BrowserState, ElementLocator, ElementRef } from "../common/types";
+import { describeElement, resolveLocator } from "./elementLocator";
+import { getFrameSelectors, resolveFrame } from "./frameManager";
+import { REF_ATTRIBUTE } from "./pageSnapshot";
+import { synthesizeSelector } from "./selectorSynthesizer";
+
+/**
+ * Element targeted by an element tool
+ */
+export interface ElementTarget {
+  selector?: string;
+  locator?: ElementLocator;
+  ref?: string;
+  frame?: string;
+  timeout?: number;
+}
+
+/**
+ * Element resolved from its target, with the frame it is in
+ */
+export interface ResolvedElement {
+  frame: Frame;
+  element: Locator;
+  description: string;
+  frameSelectors?: string[];
+  ref?: ElementRef;
+}
+
+/**
+ * Resolve the element of a tool from its ref, or its frame and selector or
+ * locator
+ */
+export async function resolveElement(
+  page: Page,
+  state: BrowserState,
+  target: ElementTarget
+): Promise<ResolvedElement> {
+  if (target.ref) {
+    const ref = state.elementRefs?.get(target.ref);
+    if (!ref) {
+      throw new Error(
+        `Unknown element ref ${target.ref}: take a pageSnapshot first`
+      );
+    }
+    if (ref.tabId && ref.tabId !== state.activeTabId) {
+      throw new Error(
+        `Element ref ${target.ref} belongs to tab ${ref.tabId}: switch to it or take a new pageSnapshot`
+      );
+    }
+
+    const frame = await resolveFrame(page, ref.frame, target.timeout);
+    const element = frame.locator(`[${REF_ATTRIBUTE}="${ref.ref}"]`);
+    if ((await element.count()) === 0) {
+      throw new Error(
+        `Element ref ${target.ref} is no longer on the page: take a new pageSnapshot`
+      );
+    }
+
+    // Refs only live until the next snapshot: record a robust selector
+    const handle = await element.elementHandle({ timeout: target.timeout });
+    const synthesized = handle
+      ? await synthesizeSelector(frame, handle).catch(() => undefined)
+      : undefined;
+    await handle?.dispose();
+
+    return {
+      frame,
+      element,
+      description: `${ref.role}${ref.name ? ` "${ref.name}"` : ""} [ref=${
+        ref.ref
+      }]`,
+      frameSelectors: ref.frame ? await getFrameSelectors(frame) : undefined,
+      ref: {
+        ...ref,
+        locator: synthesized?.locator,
+        selector: synthesized?.selector,
+      },
+    };
+  }
+
+  const frame = await resolveFrame(page, target.frame, target.timeout);
+  return {
+    frame,
+    element: resolveLocator(frame, target.selector, target.locator),
+    description: describeElement(target.selector, target.locator),
+    frameSelectors: target.frame ? await getFrameSelectors(frame) : undefined,
+  };
+}
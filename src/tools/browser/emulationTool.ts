@@ -0,0 +1,149 @@
+/**
+ * @file Browser Emulation Tools
+ * @description Tools for emulating devices and browser environments
+ *
+ * Emulation options can only be applied when a browser context is created, so
+ * the context is recreated while carrying over cookies, localStorage and the
+ * current URL (see recreateBrowserContext).
+ */
+
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { devices, BrowserContextOptions } from "playwright";
+import { ToolContext } from "../common/types";
+import {
+  describeDroppedRoutes,
+  recreateBrowserContext,
+} from "./playwrightToolHandler";
+import { COMMON_USER_AGENTS } from "./userAgentTool";
+
+/**
+ * Get the context options of a built-in Playwright device descriptor
+ */
+function getDeviceOptions(name: string): BrowserContextOptions {
+  const descriptor = devices[name];
+  if (!descriptor) {
+    const query = name.toLowerCase().split(" ")[0];
+    const suggestions = Object.keys(devices)
+      .filter((device) => device.toLowerCase().includes(query))
+      .slice(0, 10);
+    throw new Error(
+      `Unknown device: ${name}.${
+        suggestions.length ? ` Did you mean: ${suggestions.join(", ")}?` : ""
+      }`
+    );
+  }
+
+  // defaultBrowserType is not a context option
+  const { defaultBrowserType, ...options } = descriptor;
+  return options;
+}
+
+/**
+ * Tool for emulating a device or custom browser environment
+ */
+export const emulateDeviceTool = createTool({
+  name: "emulateDevice",
+  description:
+    "Emulate a device (e.g. 'iPhone 13', 'Pixel 7', 'iPad Pro 11') and/or custom environment settings such as viewport, user agent, locale, timezone, geolocation and color scheme. Cookies, localStorage and the current URL are kept.",
+  parameters: z.object({
+    device: z
+      .string()
+      .optional()
+      .describe("Name of a built-in Playwright device descriptor"),
+    viewport: z
+      .object({
+        width: z.number().positive(),
+        height: z.number().positive(),
+      })
+      .optional()
+      .describe("Viewport size"),
+    deviceScaleFactor: z
+      .number()
+      .positive()
+      .optional()
+      .describe("Device scale factor"),
+    isMobile: z.boolean().optional().describe("Emulate a mobile device"),
+    hasTouch: z.boolean().optional().describe("Enable touch events"),
+    userAgent: z.string().optional().describe("User agent string to use"),
+    userAgentPreset: z
+      .enum(Object.keys(COMMON_USER_AGENTS) as [string, ...string[]])
+      .optional()
+      .describe("Preset user agent (overrides userAgent if provided)"),
+    locale: z.string().optional().describe("Locale, e.g. 'de-DE'"),
+    timezoneId: z
+      .string()
+      .optional()
+      .describe("Timezone ID, e.g. 'Europe/Berlin'"),
+    geolocation: z
+      .object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+        accuracy: z.number().min(0).optional(),
+      })
+      .optional()
+      .describe("Geolocation (the geolocation permission is granted)"),
+    permissions: z
+      .array(z.string())
+      .optional()
+      .describe("Permissions to grant, e.g. ['geolocation', 'notifications']"),
+    colorScheme: z
+      .enum(["light", "dark", "no-preference"])
+      .optional()
+      .describe("Preferred color scheme"),
+    reducedMotion: z
+      .enum(["reduce", "no-preference"])
+      .optional()
+      .describe("Preferred reduced motion setting"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    try {
+      const { device, userAgentPreset, ...custom } = args;
+
+      const options: BrowserContextOptions = {
+        ...(device ? getDeviceOptions(device) : {}),
+        ...Object.fromEntries(
+          Object.entries(custom).filter(([, value]) => value !== undefined)
+        ),
+      };
+
+      if (userAgentPreset) {
+        options.userAgent =
+          COMMON_USER_AGENTS[
+            userAgentPreset as keyof typeof COMMON_USER_AGENTS
+          ];
+      }
+      if (args.geolocation) {
+        options.permissions = Array.from(
+          new Set([...(args.permissions ?? []), "geolocation"])
+        );
+      }
+
+      const { page, droppedRoutes } = await recreateBrowserContext(
+        toolContext,
+        options,
+        true
+      );
+
+      return {
+        result: `Emulating ${
+          device ?? "custom environment"
+        }${describeDroppedRoutes(droppedRoutes)}`,
+        options,
+        url: page.url(),
+        droppedRoutes: droppedRoutes.length ? droppedRoutes : undefined,
+      };
+    } catch (error) {
+      throw new Error(`Failed to emulate device: ${(error as Error).message}`);
+    }
+  },
+});
+
+/**
+ * Export all emulation tools as a group
+ */
+export const emulationTools = {
+  emulateDeviceTool,
+};
@@ -0,0 +1,227 @@
+/**
+ * @file Browser File Tools
+ * @description VoltAgent tools for uploading files to and downloading files from the page
+ *
+ * Uploads set the files of an <input type="file"> directly, or answer the file
+ * chooser opened by clicking an element (custom upload buttons, drop zones).
+ * Downloads are saved to DOWNLOAD_DIR (defaults to ./downloads) unless another
+ * directory is given.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { ToolContext } from "../common/types";
+import { safeBrowserOperation } from "./browserBaseTools";
+import {
+  frameParameter,
+  getFrameSelectors,
+  resolveFrame,
+} from "./frameManager";
+
+// Default directory for downloaded files
+const DEFAULT_DOWNLOAD_DIR = "downloads";
+
+/**
+ * Compute the sha256 hash of a file
+ */
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+/**
+ * Tool for uploading files
+ */
+export const uploadFileTool = createTool({
+  name: "uploadFile",
+  description:
+    "Upload files to a file input, or through the file chooser opened by clicking an element. Files can be paths on disk or in-memory contents.",
+  parameters: z.object({
+    selector: z
+      .string()
+      .optional()
+      .describe("CSS or XPath selector for the <input type=file> element"),
+    triggerSelector: z
+      .string()
+      .optional()
+      .describe(
+        "Selector of an element that opens a file chooser when clicked (instead of selector)"
+      ),
+    frame: frameParameter,
+    files: z
+      .array(z.string())
+      .optional()
+      .describe("Paths of the files to upload"),
+    buffers: z
+      .array(
+        z.object({
+          name: z.string().describe("File name"),
+          mimeType: z
+            .string()
+            .optional()
+            .default("application/octet-stream")
+            .describe("MIME type of the file"),
+          content: z.string().describe("File content"),
+          encoding: z
+            .enum(["utf8", "base64"])
+            .optional()
+            .default("utf8")
+            .describe("Encoding of the content"),
+        })
+      )
+      .optional()
+      .describe("In-memory files to upload (instead of files)"),
+    timeout: z
+      .number()
+      .positive()
+      .optional()
+      .default(30000)
+      .describe("Timeout in milliseconds"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page) => {
+      if (!args.selector === !args.triggerSelector) {
+        throw new Error("Provide either selector or triggerSelector");
+      }
+      if (args.files?.length && args.buffers?.length) {
+        throw new Error("Provide either files or buffers, not both");
+      }
+
+      const files = args.buffers?.length
+        ? args.buffers.map((file) => ({
+            name: file.name,
+            mimeType: file.mimeType,
+            buffer: Buffer.from(file.content, file.encoding),
+          }))
+        : (args.files ?? []).map((file) => {
+            const filePath = path.resolve(file);
+            if (!fs.existsSync(filePath)) {
+              throw new Error(`File not found: ${filePath}`);
+            }
+            return filePath;
+          });
+
+      const frame = await resolveFrame(page, args.frame, args.timeout);
+      if (args.triggerSelector) {
+        const [fileChooser] = await Promise.all([
+          page.waitForEvent("filechooser", { timeout: args.timeout }),
+          frame.click(args.triggerSelector, { timeout: args.timeout }),
+        ]);
+        await fileChooser.setFiles(files, { timeout: args.timeout });
+      } else {
+        await frame.setInputFiles(args.selector!, files, {
+          timeout: args.timeout,
+        });
+      }
+
+      const names = files.map((file) =>
+        typeof file === "string" ? path.basename(file) : file.name
+      );
+      return {
+        result: names.length
+          ? `Uploaded ${names.join(", ")}`
+          : "Cleared the selected files",
+        files: names,
+        frameSelectors: args.frame ? await getFrameSelectors(frame) : undefined,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for capturing a download
+ */
+export const captureDownloadTool = createTool({
+  name: "captureDownload",
+  description:
+    "Click an element that starts a download (e.g. an 'Export CSV' button), wait for the download and save it. Returns the file name, size and sha256.",
+  parameters: z.object({
+    triggerSelector: z
+      .string()
+      .describe(
+        "CSS or XPath selector of the element that starts the download"
+      ),
+    frame: frameParameter,
+    directory: z
+      .string()
+      .optional()
+      .describe("Directory to save the file to (defaults to downloads)"),
+    filename: z
+      .string()
+      .optional()
+      .describe(
+        "File name to save as, without directories (defaults to the suggested file name)"
+      ),
+    timeout: z
+      .number()
+      .positive()
+      .optional()
+      .default(30000)
+      .describe("Timeout in milliseconds"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page) => {
+      if (
+        args.filename !== undefined &&
+        (/[\\/]/.test(args.filename) || [".", ".."].includes(args.filename))
+      ) {
+        throw new Error(
+          `Invalid filename "${args.filename}": use directory to choose where the file is saved`
+        );
+      }
+
+      const frame = await resolveFrame(page, args.frame, args.timeout);
+      const [download] = await Promise.all([
+        page.waitForEvent("download", { timeout: args.timeout }),
+        frame.click(args.triggerSelector, { timeout: args.timeout }),
+      ]);
+
+      const failure = await download.failure();
+      if (failure) {
+        throw new Error(`Download failed: ${failure}`);
+      }
+
+      const directory = path.resolve(
+        args.directory ?? (process.env.DOWNLOAD_DIR || DEFAULT_DOWNLOAD_DIR)
+      );
+      const filename =
+        args.filename ?? path.basename(download.suggestedFilename());
+      const filePath = path.join(directory, filename);
+      fs.mkdirSync(directory, { recursive: true });
+      await download.saveAs(filePath);
+
+      const size = fs.statSync(filePath).size;
+      const sha256 = await hashFile(filePath);
+
+      return {
+        result: `Downloaded ${filename} (${size} bytes) to ${filePath}`,
+        filename,
+        path: filePath,
+        size,
+        sha256,
+        url: download.url(),
+        frameSelectors: args.frame ? await getFrameSelectors(frame) : undefined,
+      };
+    });
+  },
+});
+
+/**
+ * Export all file tools as a group
+ */
+export const fileTools = {
+  uploadFileTool,
+  captureDownloadTool,
+};
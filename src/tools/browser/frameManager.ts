@@ -0,0 +1,183 @@
+/**
+ * @file Browser Frame Management
+ * @description Resolves the frame (iframe) the element tools act on
+ *
+ * The optional frame parameter of the element tools identifies a frame of
+ * the current tab by (in order of precedence):
+ * - its name (the name attribute of the iframe)
+ * - a URL pattern: a substring or glob of the frame URL, or a /regex/
+ * - a chain of iframe selectors from the page down to the frame, separated
+ *   by " >> " (e.g. "iframe#checkout >> iframe[name=card]")
+ * Frames are described to the agent and the code generator by their chain
+ * of iframe selectors, which maps onto page.frameLocator() calls.
+ */
+
+import { z } from "zod";
+import { Frame, Page } from "playwright";
+import { FrameInfo } from "../common/types";
+
+// Separator of the iframe selectors of a frame chain
+export const FRAME_CHAIN_SEPARATOR = " >> ";
+
+// How long to wait for the iframes of a selector chain to be attached
+const DEFAULT_FRAME_TIMEOUT = 10000;
+
+/**
+ * Schema of the frame parameter shared by the element tools
+ */
+export const frameParameter = z
+  .string()
+  .optional()
+  .describe(
+    "Frame containing the element (defaults to the main page): frame name, URL pattern (substring, glob or /regex/) or chain of iframe selectors separated by ' >> ' (see listFrames)"
+  );
+
+/**
+ * Check whether a frame URL matches a substring, glob or /regex/ pattern
+ */
+function matchesUrl(url: string, pattern: string): boolean {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    return new RegExp(regex[1], regex[2]).test(url);
+  }
+
+  if (pattern.includes("*")) {
+    const glob = pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    return new RegExp(`^${glob}$`).test(url);
+  }
+
+  return url.includes(pattern);
+}
+
+/**
+ * Follow a chain of iframe selectors from the main frame
+ */
+async function findFrameBySelectors(
+  page: Page,
+  selectors: string[],
+  timeout: number
+): Promise<Frame> {
+  let frame = page.mainFrame();
+
+  for (const selector of selectors) {
+    const element = await frame.waitForSelector(selector, {
+      state: "attached",
+      timeout,
+    });
+    const childFrame = await element.contentFrame();
+    await element.dispose();
+
+    if (!childFrame) {
+      throw new Error(`Element ${selector} is not an iframe`);
+    }
+    frame = childFrame;
+  }
+
+  return frame;
+}
+
+/**
+ * Resolve the frame parameter of an element tool (the main frame if not set)
+ */
+export async function resolveFrame(
+  page: Page,
+  frame?: string,
+  timeout = DEFAULT_FRAME_TIMEOUT
+): Promise<Frame> {
+  if (!frame) {
+    return page.mainFrame();
+  }
+
+  const childFrames = page
+    .frames()
+    .filter((candidate) => candidate !== page.mainFrame());
+  const match =
+    childFrames.find((candidate) => candidate.name() === frame) ??
+    childFrames.find((candidate) => matchesUrl(candidate.url(), frame));
+  if (match) {
+    return match;
+  }
+
+  // Otherwise the frame is a chain of iframe selectors
+  const selectors = frame
+    .split(FRAME_CHAIN_SEPARATOR.trim())
+    .map((selector) => selector.trim())
+    .filter(Boolean);
+
+  try {
+    return await findFrameBySelectors(page, selectors, timeout);
+  } catch (error) {
+    throw new Error(
+      `No frame found matching "${frame}" by name, URL or iframe selector: ${
+        (error as Error).message
+      }`
+    );
+  }
+}
+
+/**
+ * Get the chain of iframe selectors from the page down to a frame
+ * (empty for the main frame)
+ */
+export async function getFrameSelectors(frame: Frame): Promise<string[]> {
+  const selectors: string[] = [];
+
+  for (
+    let current = frame;
+    current.parentFrame();
+    current = current.parentFrame()!
+  ) {
+    const element = await current.frameElement();
+    // Runs in the page: no named functions, which the dev server (tsx)
+    // would wrap in a __name helper the page does not define
+    const selector = await element.evaluate((node) => {
+      const el = node as Element;
+      const tagName = el.tagName.toLowerCase();
+      const name = ["id", "name", "src"].find((attribute) =>
+        el.getAttribute(attribute)
+      );
+
+      if (name) {
+        return `${tagName}[${name}="${el
+          .getAttribute(name)!
+          .replace(/"/g, '\\"')}"]`;
+      }
+
+      // Not nth=, which would clash with the chain separator
+      const siblings = Array.from(el.ownerDocument.querySelectorAll(tagName));
+      return `:nth-match(${tagName}, ${siblings.indexOf(el) + 1})`;
+    });
+    await element.dispose();
+
+    selectors.unshift(selector);
+  }
+
+  return selectors;
+}
+
+/**
+ * Describe all frames of a page in document order
+ */
+export async function listFrames(page: Page): Promise<FrameInfo[]> {
+  const frames = page.frames();
+
+  return Promise.all(
+    frames.map(async (frame, index) => {
+      const parentFrame = frame.parentFrame();
+      const selectors = await getFrameSelectors(frame).catch(() => []);
+
+      return {
+        index,
+        name: frame.name(),
+        url: frame.url(),
+        parentIndex: parentFrame ? frames.indexOf(parentFrame) : undefined,
+        frame: selectors.length
+          ? selectors.join(FRAME_CHAIN_SEPARATOR)
+          : undefined,
+      };
+    })
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * @file Browser Frame Tools
+ * @description VoltAgent tools for inspecting the frames (iframes) of the current tab
+ */
+
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { ToolContext } from "../common/types";
+import { safeBrowserOperation } from "./browserBaseTools";
+import { listFrames } from "./frameManager";
+
+/**
+ * Tool for listing the frames of the current tab
+ */
+export const listFramesTool = createTool({
+  name: "listFrames",
+  description:
+    "List the frames (iframes) of the current tab with their name, URL and the frame value to pass to element tools",
+  parameters: z.object({}),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page) => {
+      const frames = await listFrames(page);
+
+      return {
+        result: `Found ${frames.length - 1} frame(s) besides the main page`,
+        frames,
+      };
+    });
+  },
+});
+
+/**
+ * Export all frame tools as a group
+ */
+export const frameTools = {
+  listFramesTool,
+};
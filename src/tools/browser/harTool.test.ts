@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { ToolExecuteOptions } from "@voltagent/core";
+import { openFakeSession } from "../../test/fakeBrowser";
+import { startHarRecordingTool, stopHarRecordingTool } from "./harTool";
+
+describe("harTool", () => {
+  it("records a HAR file and reopens the current page", async () => {
+    const { toolContext, session, browser } = await openFakeSession("har");
+    const options = toolContext as ToolExecuteOptions;
+    const harPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "har-")),
+      "session.har"
+    );
+    await session.page!.goto("https://example.com/");
+
+    await startHarRecordingTool.execute(
+      { path: harPath, content: "embed", mode: "minimal" },
+      options
+    );
+    const recordedContext = browser.openedContexts.at(-1)!;
+    assert.equal(recordedContext.options.recordHar?.path, harPath);
+    assert.equal(session.page!.url(), "https://example.com/");
+    assert.equal(session.activeTabId, "tab-1");
+
+    const result = (await stopHarRecordingTool.execute({}, options)) as {
+      entryCount?: number;
+    };
+    assert.ok(recordedContext.closed);
+    assert.ok(fs.existsSync(harPath));
+    assert.equal(result.entryCount, 0);
+    assert.equal(session.harRecording, undefined);
+    assert.equal(session.page!.url(), "https://example.com/");
+    assert.equal(session.tabs?.size, 1);
+  });
+});
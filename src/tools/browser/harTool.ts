@@ -0,0 +1,160 @@
+/**
+ * @file Browser HAR Tools
+ * @description Tools for recording the network traffic of the browser to a HAR file
+ *
+ * Playwright records HAR files per browser context, so starting and stopping a
+ * recording recreates the context (keeping cookies, localStorage and the current
+ * URL). The HAR file is written when the recorded context is closed, so tools
+ * that recreate the context (emulateDevice, loadStorageState) are refused
+ * while a recording is in progress.
+ * Recorded files can be replayed offline with the replayFromHar launch option.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { ToolContext } from "../common/types";
+import {
+  describeDroppedRoutes,
+  getBrowserSession,
+  recreateBrowserContext,
+} from "./playwrightToolHandler";
+
+// Default directory for HAR files
+const DEFAULT_HAR_DIR = "har";
+
+/**
+ * Tool for starting a HAR recording
+ */
+export const startHarRecordingTool = createTool({
+  name: "startHarRecording",
+  description:
+    "Start recording all network traffic of the browser to a HAR file (for offline replay or debugging)",
+  parameters: z.object({
+    path: z
+      .string()
+      .optional()
+      .describe("Path of the HAR file (defaults to har/<session>-<time>.har)"),
+    urlFilter: z
+      .string()
+      .optional()
+      .describe("Only record requests matching this URL glob"),
+    content: z
+      .enum(["embed", "attach", "omit"])
+      .optional()
+      .default("embed")
+      .describe(
+        "How to store response bodies: embedded in the HAR, attached as separate files, or omitted"
+      ),
+    mode: z
+      .enum(["full", "minimal"])
+      .optional()
+      .default("minimal")
+      .describe("'minimal' records only what is needed to replay from HAR"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    try {
+      const session = getBrowserSession(toolContext);
+      if (session.harRecording) {
+        throw new Error(
+          `A HAR recording is already in progress: ${session.harRecording.path}`
+        );
+      }
+
+      const harPath = path.resolve(
+        args.path ??
+          path.join(DEFAULT_HAR_DIR, `${session.id}-${Date.now()}.har`)
+      );
+      fs.mkdirSync(path.dirname(harPath), { recursive: true });
+
+      const { droppedRoutes } = await recreateBrowserContext(
+        toolContext,
+        {
+          recordHar: {
+            path: harPath,
+            content: args.content,
+            mode: args.mode,
+            urlFilter: args.urlFilter,
+          },
+        },
+        true
+      );
+      session.harRecording = {
+        path: harPath,
+        urlFilter: args.urlFilter,
+        startedAt: Date.now(),
+      };
+
+      return {
+        result: `Started HAR recording to ${harPath}${describeDroppedRoutes(
+          droppedRoutes
+        )}`,
+        path: harPath,
+        droppedRoutes: droppedRoutes.length ? droppedRoutes : undefined,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to start HAR recording: ${(error as Error).message}`
+      );
+    }
+  },
+});
+
+/**
+ * Tool for stopping the HAR recording
+ */
+export const stopHarRecordingTool = createTool({
+  name: "stopHarRecording",
+  description: "Stop the HAR recording and write the HAR file",
+  parameters: z.object({}),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    try {
+      const session = getBrowserSession(toolContext);
+      const recording = session.harRecording;
+      if (!recording) {
+        throw new Error("No HAR recording in progress");
+      }
+
+      // Closing the recorded context writes the HAR file
+      const { droppedRoutes } = await recreateBrowserContext(
+        toolContext,
+        { recordHar: undefined },
+        true
+      );
+      session.harRecording = undefined;
+
+      // .zip archives (content: "attach") can't be inspected as JSON
+      const entryCount = recording.path.endsWith(".har")
+        ? JSON.parse(fs.readFileSync(recording.path, "utf-8")).log?.entries
+            ?.length
+        : undefined;
+
+      return {
+        result: `HAR recording saved to ${
+          recording.path
+        }${describeDroppedRoutes(droppedRoutes)}`,
+        path: recording.path,
+        entryCount,
+        durationMs: Date.now() - recording.startedAt,
+        droppedRoutes: droppedRoutes.length ? droppedRoutes : undefined,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to stop HAR recording: ${(error as Error).message}`
+      );
+    }
+  },
+});
+
+/**
+ * Export all HAR tools as a group
+ */
+export const harTools = {
+  startHarRecordingTool,
+  stopHarRecordingTool,
+};
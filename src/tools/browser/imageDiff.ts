@@ -0,0 +1,314 @@
+/**
+ * @file Image Diff
+ * @description Pixel comparison of two PNG screenshots
+ *
+ * The images are decoded, compared and the diff image encoded in the browser
+ * (with OffscreenCanvas), so no image library is needed. This runs in a blank
+ * page of a browser context of its own, never in the page under test: that
+ * page may navigate during the comparison, override globals, or be busy with
+ * its own scripts. Pixels are compared
+ * like pixelmatch does: by their perceived color difference (YIQ), against a
+ * threshold between 0 (strict) and 1, and anti-aliased pixels can be ignored.
+ * The diff image shows the baseline faded, changed pixels in red and ignored
+ * anti-aliased pixels in yellow. Images of different sizes are compared on
+ * the larger size, pixels outside either image counting as changed.
+ */
+
+import { Browser, Page } from "playwright";
+import { loadPageFunction } from "./pageFunction";
+
+// Default per-pixel color threshold (the toHaveScreenshot default)
+export const DEFAULT_DIFF_THRESHOLD = 0.2;
+
+/**
+ * Options of an image comparison
+ */
+export interface ImageDiffOptions {
+  threshold?: number;
+  includeAntialiasing?: boolean;
+}
+
+/**
+ * Result of an image comparison
+ */
+export interface ImageDiff {
+  width: number;
+  height: number;
+  diffPixels: number;
+  totalPixels: number;
+  sizeChanged: boolean;
+  diff: Buffer;
+}
+
+/**
+ * Compare two PNG images in a blank page of the browser
+ */
+export async function diffImages(
+  browser: Browser,
+  baseline: Buffer,
+  actual: Buffer,
+  options: ImageDiffOptions = {}
+): Promise<ImageDiff> {
+  const context = await browser.newContext();
+  try {
+    const page = await context.newPage();
+    return await comparePngs(page, baseline, actual, options);
+  } finally {
+    await context.close();
+  }
+}
+
+/**
+ * Compare two base64 PNG images (runs in the browser, see pageFunction.ts)
+ */
+async function comparePngsInPage({
+  baseline,
+  actual,
+  threshold,
+  includeAntialiasing,
+}: {
+  baseline: string;
+  actual: string;
+  threshold: number;
+  includeAntialiasing: boolean;
+}): Promise<Omit<ImageDiff, "diff"> & { diff: string }> {
+  const decode = async (base64: string) => {
+    const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+    const bitmap = await createImageBitmap(
+      new Blob([bytes], { type: "image/png" })
+    );
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const context = canvas.getContext("2d")!;
+    context.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return context.getImageData(0, 0, canvas.width, canvas.height);
+  };
+  const [expected, received] = await Promise.all([
+    decode(baseline),
+    decode(actual),
+  ]);
+
+  const width = Math.max(expected.width, received.width);
+  const height = Math.max(expected.height, received.height);
+  const sizeChanged =
+    expected.width !== received.width || expected.height !== received.height;
+
+  // Pad both images to the common size
+  const pad = (image: ImageData) => {
+    if (image.width === width && image.height === height) {
+      return image.data;
+    }
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < image.height; y++) {
+      data.set(
+        image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4),
+        y * width * 4
+      );
+    }
+    return data;
+  };
+  const img1 = pad(expected);
+  const img2 = pad(received);
+
+  const blend = (color: number, alpha: number) => 255 + (color - 255) * alpha;
+  const rgb2y = (r: number, g: number, b: number) =>
+    r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+  const rgb2i = (r: number, g: number, b: number) =>
+    r * 0.59597799 - g * 0.2741761 - b * 0.32180189;
+  const rgb2q = (r: number, g: number, b: number) =>
+    r * 0.21147017 - g * 0.52261711 + b * 0.31114694;
+
+  // Perceived color difference of two pixels (signed by brightness), or
+  // brightness difference only
+  const colorDelta = (
+    a: Uint8ClampedArray,
+    b: Uint8ClampedArray,
+    k: number,
+    m: number,
+    yOnly = false
+  ) => {
+    let [r1, g1, b1, a1] = [a[k], a[k + 1], a[k + 2], a[k + 3]];
+    let [r2, g2, b2, a2] = [b[m], b[m + 1], b[m + 2], b[m + 3]];
+    if (a1 === a2 && r1 === r2 && g1 === g2 && b1 === b2) {
+      return 0;
+    }
+    if (a1 < 255) {
+      a1 /= 255;
+      [r1, g1, b1] = [blend(r1, a1), blend(g1, a1), blend(b1, a1)];
+    }
+    if (a2 < 255) {
+      a2 /= 255;
+      [r2, g2, b2] = [blend(r2, a2), blend(g2, a2), blend(b2, a2)];
+    }
+
+    const y1 = rgb2y(r1, g1, b1);
+    const y2 = rgb2y(r2, g2, b2);
+    const y = y1 - y2;
+    if (yOnly) {
+      return y;
+    }
+    const i = rgb2i(r1, g1, b1) - rgb2i(r2, g2, b2);
+    const q = rgb2q(r1, g1, b1) - rgb2q(r2, g2, b2);
+    const delta = 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+    return y1 > y2 ? -delta : delta;
+  };
+
+  const neighborhood = (x: number, y: number) => ({
+    x0: Math.max(x - 1, 0),
+    y0: Math.max(y - 1, 0),
+    x2: Math.min(x + 1, width - 1),
+    y2: Math.min(y + 1, height - 1),
+  });
+
+  // Whether a pixel has more than 2 identical neighbors
+  const hasManySiblings = (img: Uint8ClampedArray, x: number, y: number) => {
+    const { x0, y0, x2, y2 } = neighborhood(x, y);
+    const pos = (y * width + x) * 4;
+    let zeroes = x === x0 || x === x2 || y === y0 || y === y2 ? 1 : 0;
+    for (let nx = x0; nx <= x2; nx++) {
+      for (let ny = y0; ny <= y2; ny++) {
+        if (nx === x && ny === y) {
+          continue;
+        }
+        const pos2 = (ny * width + nx) * 4;
+        if (
+          img[pos] === img[pos2] &&
+          img[pos + 1] === img[pos2 + 1] &&
+          img[pos + 2] === img[pos2 + 2] &&
+          img[pos + 3] === img[pos2 + 3]
+        ) {
+          zeroes++;
+        }
+        if (zeroes > 2) {
+          return true;
+        }
+      }
+    }
+    return false;
+  };
+
+  // Whether a pixel is likely anti-aliasing (between a darker and a
+  // brighter neighbor, which are flat areas in both images)
+  const isAntialiased = (
+    img: Uint8ClampedArray,
+    x: number,
+    y: number,
+    other: Uint8ClampedArray
+  ) => {
+    const { x0, y0, x2, y2 } = neighborhood(x, y);
+    const pos = (y * width + x) * 4;
+    let zeroes = x === x0 || x === x2 || y === y0 || y === y2 ? 1 : 0;
+    let min = 0;
+    let max = 0;
+    let [minX, minY, maxX, maxY] = [0, 0, 0, 0];
+    for (let nx = x0; nx <= x2; nx++) {
+      for (let ny = y0; ny <= y2; ny++) {
+        if (nx === x && ny === y) {
+          continue;
+        }
+        const delta = colorDelta(img, img, pos, (ny * width + nx) * 4, true);
+        if (delta === 0) {
+          zeroes++;
+          if (zeroes > 2) {
+            return false;
+          }
+        } else if (delta < min) {
+          [min, minX, minY] = [delta, nx, ny];
+        } else if (delta > max) {
+          [max, maxX, maxY] = [delta, nx, ny];
+        }
+      }
+    }
+    if (min === 0 || max === 0) {
+      return false;
+    }
+    return (
+      (hasManySiblings(img, minX, minY) &&
+        hasManySiblings(other, minX, minY)) ||
+      (hasManySiblings(img, maxX, maxY) && hasManySiblings(other, maxX, maxY))
+    );
+  };
+
+  const maxDelta = 35215 * threshold * threshold;
+  const output = new ImageData(width, height);
+  const draw = (pos: number, r: number, g: number, b: number) => {
+    output.data[pos] = r;
+    output.data[pos + 1] = g;
+    output.data[pos + 2] = b;
+    output.data[pos + 3] = 255;
+  };
+  const minWidth = Math.min(expected.width, received.width);
+  const minHeight = Math.min(expected.height, received.height);
+
+  let diffPixels = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pos = (y * width + x) * 4;
+      if (x >= minWidth || y >= minHeight) {
+        diffPixels++;
+        draw(pos, 255, 0, 0);
+        continue;
+      }
+
+      const delta = colorDelta(img1, img2, pos, pos);
+      if (Math.abs(delta) > maxDelta) {
+        if (
+          !includeAntialiasing &&
+          (isAntialiased(img1, x, y, img2) || isAntialiased(img2, x, y, img1))
+        ) {
+          draw(pos, 255, 255, 0);
+        } else {
+          diffPixels++;
+          draw(pos, 255, 0, 0);
+        }
+      } else {
+        // Unchanged pixels: the baseline, faded
+        const gray = blend(
+          rgb2y(img1[pos], img1[pos + 1], img1[pos + 2]),
+          (0.1 * img1[pos + 3]) / 255
+        );
+        draw(pos, gray, gray, gray);
+      }
+    }
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  canvas.getContext("2d")!.putImageData(output, 0, 0);
+  const png = new Uint8Array(
+    await (await canvas.convertToBlob({ type: "image/png" })).arrayBuffer()
+  );
+  let binary = "";
+  for (let i = 0; i < png.length; i += 0x8000) {
+    binary += String.fromCharCode(...png.subarray(i, i + 0x8000));
+  }
+
+  return {
+    width,
+    height,
+    diffPixels,
+    totalPixels: width * height,
+    sizeChanged,
+    diff: btoa(binary),
+  };
+}
+
+/**
+ * Compare two PNG images in a blank page
+ */
+async function comparePngs(
+  page: Page,
+  baseline: Buffer,
+  actual: Buffer,
+  options: ImageDiffOptions
+): Promise<ImageDiff> {
+  const compare = await loadPageFunction(page.mainFrame(), comparePngsInPage);
+  const result = await page.evaluate(({ compare, ...args }) => compare(args), {
+    compare,
+    baseline: baseline.toString("base64"),
+    actual: actual.toString("base64"),
+    threshold: options.threshold ?? DEFAULT_DIFF_THRESHOLD,
+    includeAntialiasing: options.includeAntialiasing ?? false,
+  });
+
+  return { ...result, diff: Buffer.from(result.diff, "base64") };
+}
@@ -6,15 +6,50 @@
 // Export browser base functionality
 export * from "./browserBaseTools";
 export * from "./playwrightToolHandler";
+export * from "./browserConfig";
+export * from "./browserConnection";
+export * from "./tabManager";
+export * from "./frameManager";
+export * from "./elementLocator";
+export * from "./elementResolver";
+export * from "./selectorSynthesizer";
+export * from "./selectorHealer";
+export * from "./pageSnapshot";
+export * from "./interactiveElements";
+export * from "./setOfMarks";
+export * from "./imageDiff";
+export * from "./toolResultImages";
+export * from "./dialogManager";
+export * from "./sessionManager";
+export * from "./storageProfiles";
+export * from "./networkRecorder";
+export * from "./traceRecorder";
+export * from "./videoRecorder";
 
 // Export browser tools
+export * from "./launchTool";
+export * from "./sessionTool";
 export * from "./navigationTool";
+export * from "./tabTool";
+export * from "./frameTool";
+export * from "./dialogTool";
+export * from "./storageStateTool";
+export * from "./cookieTool";
+export * from "./routeTool";
+export * from "./harTool";
+export * from "./networkTool";
+export * from "./tracingTool";
 export * from "./screenshotTool";
 export * from "./consoleTool";
 export * from "./interactionTool";
 export * from "./responseTool";
+export * from "./assertionTool";
 export * from "./userAgentTool";
+export * from "./emulationTool";
 
 export * from "./outputTool";
+export * from "./fileTool";
 
 export * from "./visiblePageTool";
+export * from "./snapshotTool";
+export * from "./markTool";
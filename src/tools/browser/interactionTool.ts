@@ -1,12 +1,28 @@
 /**
  * @file Browser Interaction Tools
  * @description VoltAgent tools for interacting with page elements
+ *
+ * Every element tool takes an optional frame parameter to act on elements
+ * inside iframes (see frameManager.ts). CSS selectors pierce open shadow roots.
+ * The main element tools also accept a semantic locator or the ref of an
+ * element of the last page snapshot instead of a selector (see elementLocator.ts),
+ * and retry on the closest match when self healing is enabled
+ * (see selectorHealer.ts).
  */
 
 import { z } from "zod";
+import { Locator } from "playwright";
 import { createTool } from "@voltagent/core";
 import { ToolContext } from "../common/types";
 import { safeBrowserOperation } from "./browserBaseTools";
+import { locatorParameter, refParameter } from "./elementLocator";
+import { resolveElement } from "./elementResolver";
+import { HealingReport, runWithHealing } from "./selectorHealer";
+import {
+  frameParameter,
+  getFrameSelectors,
+  resolveFrame,
+} from "./frameManager";
 
 /**
  * Tool for clicking on an element
@@ -15,7 +31,15 @@ export const clickTool = createTool({
   name: "click",
   description: "Click on an element on the page",
   parameters: z.object({
-    selector: z.string().describe("CSS or XPath selector for the element"),
+    selector: z
+      .string()
+      .optional()
+      .describe(
+        "CSS or XPath selector for the element (or use locator or ref)"
+      ),
+    locator: locatorParameter,
+    ref: refParameter,
+    frame: frameParameter,
     timeout: z
       .number()
       .positive()
@@ -42,15 +66,28 @@ export const clickTool = createTool({
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
-    return safeBrowserOperation(toolContext, async (page) => {
-      await page.click(args.selector, {
-        button: args.button,
-        clickCount: args.clickCount,
-        force: args.force,
-        timeout: args.timeout,
-      });
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const { healing } = await runWithHealing(
+        toolContext,
+        session,
+        args,
+        target,
+        (element, timeout) =>
+          element.click({
+            button: args.button,
+            clickCount: args.clickCount,
+            force: args.force,
+            timeout,
+          })
+      );
 
-      return { result: `Clicked on element with selector: ${args.selector}` };
+      return {
+        result: `Clicked on ${target.description}`,
+        frameSelectors: target.frameSelectors,
+        ref: target.ref,
+        ...healing,
+      };
     });
   },
 });
@@ -64,7 +101,13 @@ export const typeTool = createTool({
   parameters: z.object({
     selector: z
       .string()
-      .describe("CSS or XPath selector for the input element"),
+      .optional()
+      .describe(
+        "CSS or XPath selector for the input element (or use locator or ref)"
+      ),
+    locator: locatorParameter,
+    ref: refParameter,
+    frame: frameParameter,
     text: z.string().describe("Text to type"),
     delay: z
       .number()
@@ -81,11 +124,24 @@ export const typeTool = createTool({
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
-    return safeBrowserOperation(toolContext, async (page) => {
-      await page.fill(args.selector, args.text, { timeout: args.timeout });
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const { healing } = await runWithHealing(
+        toolContext,
+        session,
+        args,
+        target,
+        (element, timeout) =>
+          element.fill(args.text, {
+            timeout,
+          })
+      );
 
       return {
-        result: `Typed "${args.text}" into element with selector: ${args.selector}`,
+        result: `Typed "${args.text}" into ${target.description}`,
+        frameSelectors: target.frameSelectors,
+        ref: target.ref,
+        ...healing,
       };
     });
   },
@@ -98,7 +154,15 @@ export const getTextTool = createTool({
   name: "getText",
   description: "Get text content from an element",
   parameters: z.object({
-    selector: z.string().describe("CSS or XPath selector for the element"),
+    selector: z
+      .string()
+      .optional()
+      .describe(
+        "CSS or XPath selector for the element (or use locator or ref)"
+      ),
+    locator: locatorParameter,
+    ref: refParameter,
+    frame: frameParameter,
     timeout: z
       .number()
       .positive()
@@ -109,16 +173,25 @@ export const getTextTool = createTool({
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
-    return safeBrowserOperation(toolContext, async (page) => {
-      await page.waitForSelector(args.selector, { timeout: args.timeout });
-      const text = await page.$eval(
-        args.selector,
-        (el) => el.textContent?.trim() || ""
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const { value: text, healing } = await runWithHealing(
+        toolContext,
+        session,
+        args,
+        target,
+        async (element, timeout) => {
+          await element.waitFor({ timeout });
+          return (await element.textContent({ timeout }))?.trim() || "";
+        }
       );
 
       return {
         result: `Text content: ${text}`,
         text,
+        frameSelectors: target.frameSelectors,
+        ref: target.ref,
+        ...healing,
       };
     });
   },
@@ -133,7 +206,13 @@ export const selectOptionTool = createTool({
   parameters: z.object({
     selector: z
       .string()
-      .describe("CSS or XPath selector for the select element"),
+      .optional()
+      .describe(
+        "CSS or XPath selector for the select element (or use locator or ref)"
+      ),
+    locator: locatorParameter,
+    ref: refParameter,
+    frame: frameParameter,
     values: z
       .union([
         z.string().array().describe("Array of values to select"),
@@ -150,16 +229,26 @@ export const selectOptionTool = createTool({
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
-    return safeBrowserOperation(toolContext, async (page) => {
+    return safeBrowserOperation(toolContext, async (page, session) => {
       // Convert single value to array if needed
       const values =
         typeof args.values === "string" ? [args.values] : args.values;
 
-      await page.selectOption(args.selector, values, { timeout: args.timeout });
+      const target = await resolveElement(page, session, args);
+      const { healing } = await runWithHealing(
+        toolContext,
+        session,
+        args,
+        target,
+        (element, timeout) => element.selectOption(values, { timeout })
+      );
       return {
         result: `Selected option(s): ${
           Array.isArray(values) ? values.join(", ") : values
-        } in dropdown with selector: ${args.selector}`,
+        } in dropdown ${target.description}`,
+        frameSelectors: target.frameSelectors,
+        ref: target.ref,
+        ...healing,
       };
     });
   },
@@ -174,7 +263,13 @@ export const checkTool = createTool({
   parameters: z.object({
     selector: z
       .string()
-      .describe("CSS or XPath selector for the checkbox or radio"),
+      .optional()
+      .describe(
+        "CSS or XPath selector for the checkbox or radio (or use locator or ref)"
+      ),
+    locator: locatorParameter,
+    ref: refParameter,
+    frame: frameParameter,
     timeout: z
       .number()
       .positive()
@@ -190,12 +285,25 @@ export const checkTool = createTool({
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
-    return safeBrowserOperation(toolContext, async (page) => {
-      await page.check(args.selector, {
-        timeout: args.timeout,
-        force: args.force,
-      });
-      return { result: `Checked element with selector: ${args.selector}` };
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const { healing } = await runWithHealing(
+        toolContext,
+        session,
+        args,
+        target,
+        (element, timeout) =>
+          element.check({
+            timeout,
+            force: args.force,
+          })
+      );
+      return {
+        result: `Checked ${target.description}`,
+        frameSelectors: target.frameSelectors,
+        ref: target.ref,
+        ...healing,
+      };
     });
   },
 });
@@ -207,7 +315,15 @@ export const uncheckTool = createTool({
   name: "uncheck",
   description: "Uncheck a checkbox",
   parameters: z.object({
-    selector: z.string().describe("CSS or XPath selector for the checkbox"),
+    selector: z
+      .string()
+      .optional()
+      .describe(
+        "CSS or XPath selector for the checkbox (or use locator or ref)"
+      ),
+    locator: locatorParameter,
+    ref: refParameter,
+    frame: frameParameter,
     timeout: z
       .number()
       .positive()
@@ -223,12 +339,25 @@ export const uncheckTool = createTool({
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
-    return safeBrowserOperation(toolContext, async (page) => {
-      await page.uncheck(args.selector, {
-        timeout: args.timeout,
-        force: args.force,
-      });
-      return { result: `Unchecked element with selector: ${args.selector}` };
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const { healing } = await runWithHealing(
+        toolContext,
+        session,
+        args,
+        target,
+        (element, timeout) =>
+          element.uncheck({
+            timeout,
+            force: args.force,
+          })
+      );
+      return {
+        result: `Unchecked ${target.description}`,
+        frameSelectors: target.frameSelectors,
+        ref: target.ref,
+        ...healing,
+      };
     });
   },
 });
@@ -240,7 +369,15 @@ export const hoverTool = createTool({
   name: "hover",
   description: "Hover over an element",
   parameters: z.object({
-    selector: z.string().describe("CSS or XPath selector for the element"),
+    selector: z
+      .string()
+      .optional()
+      .describe(
+        "CSS or XPath selector for the element (or use locator or ref)"
+      ),
+    locator: locatorParameter,
+    ref: refParameter,
+    frame: frameParameter,
     timeout: z
       .number()
       .positive()
@@ -256,12 +393,25 @@ export const hoverTool = createTool({
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
-    return safeBrowserOperation(toolContext, async (page) => {
-      await page.hover(args.selector, {
-        timeout: args.timeout,
-        force: args.force,
-      });
-      return { result: `Hovered over element with selector: ${args.selector}` };
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const { healing } = await runWithHealing(
+        toolContext,
+        session,
+        args,
+        target,
+        (element, timeout) =>
+          element.hover({
+            timeout,
+            force: args.force,
+          })
+      );
+      return {
+        result: `Hovered over ${target.description}`,
+        frameSelectors: target.frameSelectors,
+        ref: target.ref,
+        ...healing,
+      };
     });
   },
 });
@@ -280,6 +430,7 @@ export const pressKeyTool = createTool({
       .string()
       .optional()
       .describe("Optional selector to focus before pressing key"),
+    frame: frameParameter,
     delay: z
       .number()
       .optional()
@@ -297,8 +448,9 @@ export const pressKeyTool = createTool({
 
     return safeBrowserOperation(toolContext, async (page) => {
       // Focus element if selector provided
+      const frame = await resolveFrame(page, args.frame, args.timeout);
       if (args.selector) {
-        await page.focus(args.selector, { timeout: args.timeout });
+        await frame.focus(args.selector, { timeout: args.timeout });
       }
 
       await page.keyboard.press(args.key, { delay: args.delay });
@@ -306,6 +458,7 @@ export const pressKeyTool = createTool({
         result: args.selector
           ? `Pressed ${args.key} on element with selector: ${args.selector}`
           : `Pressed ${args.key}`,
+        frameSelectors: args.frame ? await getFrameSelectors(frame) : undefined,
       };
     });
   },
@@ -318,7 +471,15 @@ export const waitForElementTool = createTool({
   name: "waitForElement",
   description: "Wait for an element to appear or become visible",
   parameters: z.object({
-    selector: z.string().describe("CSS or XPath selector for the element"),
+    selector: z
+      .string()
+      .optional()
+      .describe(
+        "CSS or XPath selector for the element (or use locator or ref)"
+      ),
+    locator: locatorParameter,
+    ref: refParameter,
+    frame: frameParameter,
     state: z
       .enum(["attached", "detached", "visible", "hidden"])
       .optional()
@@ -334,13 +495,340 @@ export const waitForElementTool = createTool({
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveElement(page, session, args);
+      const waitFor = (element: Locator, timeout = args.timeout) =>
+        element.waitFor({ state: args.state, timeout });
+      // Only heal waits for the element to show up
+      let healing: HealingReport | undefined;
+      if (args.state === "attached" || args.state === "visible") {
+        ({ healing } = await runWithHealing(
+          toolContext,
+          session,
+          args,
+          target,
+          waitFor
+        ));
+      } else {
+        await waitFor(target.element);
+      }
+      return {
+        result: `Waited for ${target.description} to be ${args.state}`,
+        frameSelectors: target.frameSelectors,
+        ref: target.ref,
+        ...healing,
+      };
+    });
+  },
+});
+
+// Point on the page or relative to the top-left corner of an element
+const pointSchema = z.object({
+  x: z.number().describe("X coordinate in pixels"),
+  y: z.number().describe("Y coordinate in pixels"),
+});
+
+/**
+ * Tool for dragging an element onto another element or by an offset
+ */
+export const dragAndDropTool = createTool({
+  name: "dragAndDrop",
+  description:
+    "Drag an element and drop it onto another element (e.g. kanban cards), or move it by an offset (e.g. slider handles)",
+  parameters: z.object({
+    sourceSelector: z
+      .string()
+      .describe("CSS or XPath selector for the element to drag"),
+    targetSelector: z
+      .string()
+      .optional()
+      .describe("CSS or XPath selector for the element to drop onto"),
+    offset: pointSchema
+      .optional()
+      .describe("Distance to drag the element by (instead of targetSelector)"),
+    sourcePosition: pointSchema
+      .optional()
+      .describe(
+        "Point to grab, relative to the top-left corner of the source (defaults to its center)"
+      ),
+    targetPosition: pointSchema
+      .optional()
+      .describe(
+        "Point to drop at, relative to the top-left corner of the target (defaults to its center)"
+      ),
+    steps: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .default(10)
+      .describe("Number of intermediate mouse moves while dragging"),
+    frame: frameParameter,
+    timeout: z
+      .number()
+      .positive()
+      .optional()
+      .default(30000)
+      .describe("Timeout in milliseconds"),
+    force: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Bypass actionability checks"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page) => {
+      if (!args.targetSelector === !args.offset) {
+        throw new Error("Provide either targetSelector or offset");
+      }
+
+      const frame = await resolveFrame(page, args.frame, args.timeout);
+      if (args.targetSelector) {
+        await frame.dragAndDrop(args.sourceSelector, args.targetSelector, {
+          sourcePosition: args.sourcePosition,
+          targetPosition: args.targetPosition,
+          timeout: args.timeout,
+          force: args.force,
+        });
+      } else {
+        // Drag with the mouse, from the grabbed point by the offset
+        const source = frame.locator(args.sourceSelector).first();
+        await source.scrollIntoViewIfNeeded({ timeout: args.timeout });
+        const box = await source.boundingBox({ timeout: args.timeout });
+        if (!box) {
+          throw new Error(`Element is not visible: ${args.sourceSelector}`);
+        }
+
+        const startX = box.x + (args.sourcePosition?.x ?? box.width / 2);
+        const startY = box.y + (args.sourcePosition?.y ?? box.height / 2);
+        await page.mouse.move(startX, startY);
+        await page.mouse.down();
+        await page.mouse.move(
+          startX + args.offset!.x,
+          startY + args.offset!.y,
+          {
+            steps: args.steps,
+          }
+        );
+        await page.mouse.up();
+      }
+
+      return {
+        result: args.targetSelector
+          ? `Dragged ${args.sourceSelector} onto ${args.targetSelector}`
+          : `Dragged ${args.sourceSelector} by (${args.offset!.x}, ${
+              args.offset!.y
+            })`,
+        frameSelectors: args.frame ? await getFrameSelectors(frame) : undefined,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for scrolling the page
+ */
+export const scrollTool = createTool({
+  name: "scroll",
+  description:
+    "Scroll the page by pixels, scroll an element into view, or scroll to the bottom until no new content loads (infinite feeds)",
+  parameters: z.object({
+    deltaX: z
+      .number()
+      .optional()
+      .default(0)
+      .describe("Pixels to scroll horizontally"),
+    deltaY: z
+      .number()
+      .optional()
+      .default(0)
+      .describe("Pixels to scroll vertically (negative scrolls up)"),
+    selector: z
+      .string()
+      .optional()
+      .describe("CSS or XPath selector for an element to scroll into view"),
+    toBottom: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Scroll to the bottom repeatedly until the page stops growing"),
+    maxScrolls: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .default(20)
+      .describe("Maximum number of scrolls to the bottom"),
+    waitForContent: z
+      .number()
+      .nonnegative()
+      .optional()
+      .default(1000)
+      .describe(
+        "Milliseconds to wait for new content after each scroll to the bottom"
+      ),
+    frame: frameParameter,
+    timeout: z
+      .number()
+      .positive()
+      .optional()
+      .default(30000)
+      .describe("Timeout in milliseconds"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page) => {
+      const frame = await resolveFrame(page, args.frame, args.timeout);
+      let result: string;
+      let scrolls: number | undefined;
+
+      if (args.selector) {
+        await frame
+          .locator(args.selector)
+          .first()
+          .scrollIntoViewIfNeeded({ timeout: args.timeout });
+        result = `Scrolled element with selector: ${args.selector} into view`;
+      } else if (args.toBottom) {
+        const getHeight = () =>
+          frame.evaluate(() => document.documentElement.scrollHeight);
+
+        let height = await getHeight();
+        for (scrolls = 0; scrolls < args.maxScrolls; ) {
+          await frame.evaluate(() =>
+            window.scrollTo(0, document.documentElement.scrollHeight)
+          );
+          scrolls++;
+          await page.waitForTimeout(args.waitForContent);
+
+          const newHeight = await getHeight();
+          if (newHeight === height) {
+            break;
+          }
+          height = newHeight;
+        }
+        result = `Scrolled to the bottom ${scrolls} time(s)`;
+      } else {
+        await frame.evaluate(
+          ({ deltaX, deltaY }) => window.scrollBy(deltaX, deltaY),
+          { deltaX: args.deltaX, deltaY: args.deltaY }
+        );
+        result = `Scrolled by (${args.deltaX}, ${args.deltaY})`;
+      }
+
+      const position = await frame.evaluate(() => ({
+        x: window.scrollX,
+        y: window.scrollY,
+        scrollHeight: document.documentElement.scrollHeight,
+      }));
+
+      return {
+        result,
+        position,
+        scrolls,
+        frameSelectors: args.frame ? await getFrameSelectors(frame) : undefined,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for clicking at page coordinates
+ */
+export const mouseClickAtTool = createTool({
+  name: "mouseClickAt",
+  description:
+    "Click at x/y coordinates of the viewport (e.g. on a canvas or map without selectable elements)",
+  parameters: z.object({
+    x: z
+      .number()
+      .describe("X coordinate in pixels from the left of the viewport"),
+    y: z
+      .number()
+      .describe("Y coordinate in pixels from the top of the viewport"),
+    button: z
+      .enum(["left", "right", "middle"])
+      .optional()
+      .default("left")
+      .describe("Mouse button to use"),
+    clickCount: z
+      .number()
+      .positive()
+      .optional()
+      .default(1)
+      .describe("Number of clicks"),
+    delay: z
+      .number()
+      .optional()
+      .default(0)
+      .describe("Time between mousedown and mouseup in milliseconds"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
     return safeBrowserOperation(toolContext, async (page) => {
-      await page.waitForSelector(args.selector, {
-        state: args.state,
-        timeout: args.timeout,
+      await page.mouse.click(args.x, args.y, {
+        button: args.button,
+        clickCount: args.clickCount,
+        delay: args.delay,
       });
+
+      return { result: `Clicked at (${args.x}, ${args.y})` };
+    });
+  },
+});
+
+/**
+ * Tool for moving the mouse along a path
+ */
+export const mouseMovePathTool = createTool({
+  name: "mouseMovePath",
+  description:
+    "Move the mouse through a series of viewport points, optionally holding the button down (e.g. to draw on a canvas or trace a gesture)",
+  parameters: z.object({
+    points: z
+      .array(pointSchema)
+      .min(1)
+      .describe("Points to move through, in order"),
+    holdButton: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "Hold the left mouse button down from the first to the last point"
+      ),
+    steps: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .default(5)
+      .describe("Number of intermediate mouse moves between points"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page) => {
+      const [start, ...rest] = args.points;
+      await page.mouse.move(start.x, start.y);
+      if (args.holdButton) {
+        await page.mouse.down();
+      }
+
+      for (const point of rest) {
+        await page.mouse.move(point.x, point.y, { steps: args.steps });
+      }
+
+      if (args.holdButton) {
+        await page.mouse.up();
+      }
+
       return {
-        result: `Element with selector: ${args.selector} is now in state: ${args.state}`,
+        result: `Moved the mouse through ${args.points.length} point(s)${
+          args.holdButton ? " with the button held down" : ""
+        }`,
       };
     });
   },
@@ -359,4 +847,8 @@ export const interactionTools = {
   hoverTool,
   pressKeyTool,
   waitForElementTool,
+  dragAndDropTool,
+  scrollTool,
+  mouseClickAtTool,
+  mouseMovePathTool,
 };
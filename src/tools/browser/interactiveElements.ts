@@ -0,0 +1,205 @@
+/**
+ * @file Interactive Elements
+ * @description Finds the visible interactive elements of a frame
+ *
+ * Interactive elements are links, buttons, form fields and elements with an
+ * interactive ARIA role, including those inside open shadow roots. Pages with
+ * poor semantics (canvas apps, div soup) can also include clickable elements:
+ * elements with a click handler, a tab index or a pointer cursor.
+ */
+
+import { ElementHandle, Frame } from "playwright";
+import { loadPageFunction } from "./pageFunction";
+
+/**
+ * Options of the interactive element discovery
+ */
+export interface InteractiveElementOptions {
+  includeDisabled?: boolean;
+  maxResults?: number;
+  // Only elements in the viewport and not covered by another element
+  inViewport?: boolean;
+  // Also elements that only look clickable (click handler, pointer cursor...)
+  includeClickable?: boolean;
+}
+
+/**
+ * Description of an interactive element
+ */
+export interface InteractiveElementInfo {
+  type: string;
+  text: string;
+  inShadowRoot: boolean;
+  location: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+/**
+ * Query the visible interactive elements of the document (runs in the
+ * browser, see pageFunction.ts)
+ */
+function queryInteractiveElements(
+  options: Required<InteractiveElementOptions>
+): Element[] {
+  const { includeDisabled, maxResults, inViewport, includeClickable } = options;
+
+  // Get all interactive elements
+  const interactiveSelectors = [
+    "a",
+    "button",
+    "input",
+    "select",
+    "textarea",
+    '[role="button"]',
+    '[role="link"]',
+    '[role="checkbox"]',
+    '[role="radio"]',
+    '[role="tab"]',
+    '[role="menuitem"]',
+  ];
+  if (includeClickable) {
+    interactiveSelectors.push(
+      "summary",
+      '[role="switch"]',
+      '[role="option"]',
+      '[contenteditable="true"]',
+      "[onclick]",
+      '[tabindex]:not([tabindex="-1"])'
+    );
+  }
+
+  // Query the document and every open shadow root in it
+  function queryAllDeep(
+    root: Document | ShadowRoot,
+    selector: string
+  ): Element[] {
+    const found = Array.from(root.querySelectorAll(selector));
+    for (const host of Array.from(root.querySelectorAll("*"))) {
+      if (host.shadowRoot) {
+        found.push(...queryAllDeep(host.shadowRoot, selector));
+      }
+    }
+    return found;
+  }
+
+  const allElements = queryAllDeep(document, interactiveSelectors.join(","));
+
+  // Elements with a pointer cursor that their parent does not have
+  if (includeClickable) {
+    const matched = new Set(allElements);
+    for (const el of queryAllDeep(document, "*")) {
+      const parent = el.parentElement;
+      if (
+        !matched.has(el) &&
+        window.getComputedStyle(el).cursor === "pointer" &&
+        (!parent || window.getComputedStyle(parent).cursor !== "pointer")
+      ) {
+        allElements.push(el);
+      }
+    }
+  }
+
+  // Whether the element is what the user sees at its center
+  const isOnTop = (el: Element) => {
+    const rect = el.getBoundingClientRect();
+    const x = rect.left + rect.width / 2;
+    const y = rect.top + rect.height / 2;
+    const root = el.getRootNode() as Document | ShadowRoot;
+    const top = root.elementFromPoint(x, y);
+    return !top || el === top || el.contains(top) || top.contains(el);
+  };
+
+  // Filter for visibility and enabled state
+  const visibleElements = allElements.filter((el) => {
+    // Check if visible
+    const style = window.getComputedStyle(el);
+    const rect = el.getBoundingClientRect();
+    const isVisible =
+      style.display !== "none" &&
+      style.visibility !== "hidden" &&
+      style.opacity !== "0" &&
+      rect.height > 0 &&
+      rect.width > 0;
+
+    // Check if enabled
+    const isDisabled =
+      el.hasAttribute("disabled") ||
+      el.getAttribute("aria-disabled") === "true";
+
+    // Check if in the viewport and not covered
+    const isInViewport =
+      !inViewport ||
+      (rect.bottom > 0 &&
+        rect.right > 0 &&
+        rect.top < window.innerHeight &&
+        rect.left < window.innerWidth &&
+        isOnTop(el));
+
+    return isVisible && isInViewport && (includeDisabled || !isDisabled);
+  });
+
+  // Limit results
+  return visibleElements.slice(0, maxResults);
+}
+
+/**
+ * Find the visible interactive elements of a frame (the caller disposes of
+ * the handles)
+ */
+export async function findInteractiveElements(
+  frame: Frame,
+  options: InteractiveElementOptions = {}
+): Promise<ElementHandle<Element>[]> {
+  const query = await loadPageFunction(frame, queryInteractiveElements);
+  const handles = await frame.evaluateHandle(
+    ({ query, ...options }) => query(options),
+    {
+      query,
+      includeDisabled: options.includeDisabled ?? false,
+      maxResults: options.maxResults ?? 100,
+      inViewport: options.inViewport ?? false,
+      includeClickable: options.includeClickable ?? false,
+    }
+  );
+
+  const elements: ElementHandle<Element>[] = [];
+  for (const handle of (await handles.getProperties()).values()) {
+    const element = handle.asElement();
+    if (element) {
+      elements.push(element as ElementHandle<Element>);
+    } else {
+      await handle.dispose();
+    }
+  }
+  await Promise.all([handles.dispose(), query.dispose()]);
+
+  return elements;
+}
+
+/**
+ * Describe an interactive element
+ */
+export function describeInteractiveElement(
+  element: ElementHandle
+): Promise<InteractiveElementInfo> {
+  return element.evaluate((node) => {
+    const el = node as Element;
+    const rect = el.getBoundingClientRect();
+
+    return {
+      type: el.tagName.toLowerCase(),
+      text: (el.textContent || "").trim().substring(0, 50),
+      inShadowRoot: el.getRootNode() instanceof ShadowRoot,
+      location: {
+        x: rect.left,
+        y: rect.top,
+        width: rect.width,
+        height: rect.height,
+      },
+    };
+  });
+}
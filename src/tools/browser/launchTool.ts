@@ -0,0 +1,121 @@
+/**
+ * @file Browser Launch Tools
+ * @description VoltAgent tools for choosing and (re)launching the browser engine,
+ * or connecting to a browser that is already running
+ */
+
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { ToolContext } from "../common/types";
+import {
+  browserLaunchConfigSchema,
+  loadBrowserConfig,
+  mergeBrowserConfig,
+} from "./browserConfig";
+import { getConnectProtocol } from "./browserConnection";
+import { getBrowserSession, relaunchBrowser } from "./playwrightToolHandler";
+
+/**
+ * Tool for launching a browser with a specific engine and launch options
+ */
+export const launchBrowserTool = createTool({
+  name: "launchBrowser",
+  description:
+    "Launch a browser (chromium, firefox or webkit) with the given options. Closes the current browser first if one is open. Options that are not provided keep their current value.",
+  parameters: browserLaunchConfigSchema.omit({
+    connectEndpoint: true,
+    connectProtocol: true,
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    try {
+      const config = {
+        ...mergeBrowserConfig(
+          getBrowserSession(toolContext).browserConfig ?? loadBrowserConfig(),
+          args
+        ),
+        // Launch a browser of our own rather than connecting to one
+        connectEndpoint: undefined,
+        connectProtocol: undefined,
+      };
+      await relaunchBrowser(toolContext, config);
+
+      return {
+        result: `Launched ${config.engine} browser (${
+          config.headless ? "headless" : "headed"
+        }, ${config.viewport.width}x${config.viewport.height})`,
+        config,
+      };
+    } catch (error) {
+      throw new Error(`Failed to launch browser: ${(error as Error).message}`);
+    }
+  },
+});
+
+/**
+ * Tool for connecting to a browser that is already running
+ */
+export const connectBrowserTool = createTool({
+  name: "connectBrowser",
+  description:
+    "Connect to a browser that is already running (e.g. set up and logged in by a human) instead of launching one, reusing its open tabs. Closing the browser afterwards only disconnects from it.",
+  parameters: z.object({
+    endpoint: z
+      .string()
+      .describe(
+        "CDP URL of a Chromium browser started with --remote-debugging-port (e.g. http://localhost:9222), or websocket endpoint of a Playwright browser server"
+      ),
+    protocol: z
+      .enum(["cdp", "playwright"])
+      .optional()
+      .describe(
+        "Protocol of the endpoint (guessed from the endpoint if not set)"
+      ),
+    engine: z
+      .enum(["chromium", "firefox", "webkit"])
+      .optional()
+      .describe("Engine of a Playwright browser server (defaults to chromium)"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    try {
+      const config = mergeBrowserConfig(
+        getBrowserSession(toolContext).browserConfig ?? loadBrowserConfig(),
+        {
+          connectEndpoint: args.endpoint,
+          connectProtocol: args.protocol,
+          engine: args.engine ?? "chromium",
+        }
+      );
+      // Re-guess the protocol from the new endpoint unless given
+      if (!args.protocol) {
+        config.connectProtocol = undefined;
+      }
+
+      const { session } = await relaunchBrowser(toolContext, config);
+
+      return {
+        result: `Connected to browser at ${args.endpoint} (${getConnectProtocol(
+          config
+        )})`,
+        tabCount: session.tabs?.size ?? 0,
+        activeTabId: session.activeTabId,
+        url: session.page?.url(),
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to connect to browser: ${(error as Error).message}`
+      );
+    }
+  },
+});
+
+/**
+ * Export all launch tools as a group
+ */
+export const launchTools = {
+  launchBrowserTool,
+  connectBrowserTool,
+};
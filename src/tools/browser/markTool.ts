@@ -0,0 +1,229 @@
+/**
+ * @file Set-of-Marks Tools
+ * @description VoltAgent tools for acting on numbered marks of a screenshot
+ *
+ * markedScreenshot returns a screenshot of the viewport with numbered boxes
+ * on the visible interactive elements (see setOfMarks.ts) and the table of
+ * marks; clickMark, typeIntoMark and hoverMark act on a chosen number.
+ */
+
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { ToolContext, ToolImage } from "../common/types";
+import { safeBrowserOperation } from "./browserBaseTools";
+import {
+  frameParameter,
+  getFrameSelectors,
+  resolveFrame,
+} from "./frameManager";
+import { markElements, removeMarkOverlay, resolveMark } from "./setOfMarks";
+
+const markParameter = z
+  .number()
+  .int()
+  .positive()
+  .describe("Number of the mark in the last markedScreenshot");
+
+const timeoutParameter = z
+  .number()
+  .positive()
+  .optional()
+  .default(30000)
+  .describe("Timeout in milliseconds");
+
+/**
+ * Tool for taking a screenshot with numbered marks on interactive elements
+ */
+export const markedScreenshotTool = createTool({
+  name: "markedScreenshot",
+  description:
+    "Screenshot of the viewport with numbered boxes on the visible interactive elements, and the table of marks (number, element, text, box). Use clickMark, typeIntoMark or hoverMark with a number to act on an element",
+  parameters: z.object({
+    frame: frameParameter,
+    maxMarks: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .default(50)
+      .describe("Maximum number of elements to mark"),
+    includeClickable: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe(
+        "Also mark elements that only look clickable (click handler, tab index or pointer cursor)"
+      ),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const frame = await resolveFrame(page, args.frame);
+      const marks = await markElements(frame, {
+        maxMarks: args.maxMarks,
+        includeClickable: args.includeClickable,
+      });
+
+      let buffer: Buffer;
+      try {
+        buffer = await page.screenshot({ type: "png" });
+      } finally {
+        await removeMarkOverlay(frame).catch(() => undefined);
+      }
+
+      // The marks of the previous marked screenshot are no longer valid
+      session.elementMarks = new Map(
+        marks.map((mark) => [
+          mark.mark,
+          { ...mark, tabId: session.activeTabId, frame: args.frame },
+        ])
+      );
+
+      const image: ToolImage = {
+        type: "image",
+        data: buffer.toString("base64"),
+        mimeType: "image/png",
+      };
+
+      return {
+        result: `Marked ${marks.length} interactive element(s)`,
+        marks: marks.map((mark) => ({
+          mark: mark.mark,
+          type: mark.type,
+          text: mark.text,
+          box: mark.box,
+          code: mark.code,
+        })),
+        image,
+        frameSelectors: args.frame ? await getFrameSelectors(frame) : undefined,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for clicking on a marked element
+ */
+export const clickMarkTool = createTool({
+  name: "clickMark",
+  description: "Click on an element by its number in the last markedScreenshot",
+  parameters: z.object({
+    mark: markParameter,
+    button: z
+      .enum(["left", "right", "middle"])
+      .optional()
+      .default("left")
+      .describe("Mouse button to use"),
+    clickCount: z
+      .number()
+      .positive()
+      .optional()
+      .default(1)
+      .describe("Number of clicks"),
+    timeout: timeoutParameter,
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveMark(page, session, args.mark, args.timeout);
+      await target.element.click({
+        button: args.button,
+        clickCount: args.clickCount,
+        timeout: args.timeout,
+      });
+
+      return {
+        result: `Clicked on ${target.description}`,
+        mark: target.mark,
+        frameSelectors: target.frameSelectors,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for typing into a marked element
+ */
+export const typeIntoMarkTool = createTool({
+  name: "typeIntoMark",
+  description:
+    "Type text into an element by its number in the last markedScreenshot (fills inputs, or clicks and types with the keyboard)",
+  parameters: z.object({
+    mark: markParameter,
+    text: z.string().describe("Text to type"),
+    pressEnter: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Press Enter after typing"),
+    timeout: timeoutParameter,
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveMark(page, session, args.mark, args.timeout);
+
+      // Elements that are not form fields (e.g. canvas editors) get the
+      // keystrokes of the keyboard
+      const editable = await target.element
+        .isEditable({ timeout: args.timeout })
+        .catch(() => false);
+      if (editable) {
+        await target.element.fill(args.text, { timeout: args.timeout });
+      } else {
+        await target.element.click({ timeout: args.timeout });
+        await page.keyboard.type(args.text);
+      }
+      if (args.pressEnter) {
+        await page.keyboard.press("Enter");
+      }
+
+      return {
+        result: `Typed "${args.text}" into ${target.description}`,
+        method: editable ? "fill" : "keyboard",
+        mark: target.mark,
+        frameSelectors: target.frameSelectors,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for hovering over a marked element
+ */
+export const hoverMarkTool = createTool({
+  name: "hoverMark",
+  description:
+    "Hover over an element by its number in the last markedScreenshot",
+  parameters: z.object({
+    mark: markParameter,
+    timeout: timeoutParameter,
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const target = await resolveMark(page, session, args.mark, args.timeout);
+      await target.element.hover({ timeout: args.timeout });
+
+      return {
+        result: `Hovered over ${target.description}`,
+        mark: target.mark,
+        frameSelectors: target.frameSelectors,
+      };
+    });
+  },
+});
+
+/**
+ * Export all set-of-marks tools as a group
+ */
+export const markTools = {
+  markedScreenshotTool,
+  clickMarkTool,
+  typeIntoMarkTool,
+  hoverMarkTool,
+};
@@ -17,7 +17,8 @@
 import { z } from "zod";
 import { createTool } from "@voltagent/core";
 import { ToolContext } from "../common/types";
-import { resetBrowserState } from "./playwrightToolHandler";
+import { closeBrowser } from "./playwrightToolHandler";
+import { browserSessions } from "./sessionManager";
 import { safeBrowserOperation } from "./browserBaseTools";
 
 /**
@@ -134,26 +135,28 @@ const refreshPageTool = createTool({
  */
 const closeBrowserTool = createTool({
   name: "closeBrowser",
-  description: "Close the current browser instance",
+  description:
+    "Close the browser instance of the current conversation (or disconnect from a browser connected to with connectBrowser)",
   parameters: z.object({}),
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
-    if (toolContext.browser) {
-      try {
-        if (toolContext.browser.isConnected()) {
-          await toolContext.browser.close().catch((error) => {
-            console.error("Error while closing browser:", error);
-          });
-        } else {
-          console.error("Browser already disconnected, cleaning up state");
-        }
-      } catch (error) {
-        console.error("Error during browser close operation:", error);
-      } finally {
-        resetBrowserState();
-      }
-      return { result: "Browser closed successfully" };
+    const session = browserSessions.getSession(
+      browserSessions.resolveSessionId(toolContext)
+    );
+    // Videos are complete once the browser is closed
+    const videoRecording = session?.videoRecording;
+    const connected = session?.connected;
+
+    // Closing the session also clears its browser state
+    if (await closeBrowser(toolContext)) {
+      return {
+        result: connected
+          ? "Disconnected from browser (left running)"
+          : "Browser closed successfully",
+        videos: videoRecording?.videos.map((video) => video.path),
+        videoSteps: videoRecording?.sidecarPath,
+      };
     }
     return { result: "No browser instance to close" };
   },
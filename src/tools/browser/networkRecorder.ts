@@ -0,0 +1,153 @@
+/**
+ * @file Network Recorder
+ * @description Records the network requests of every tab in a ring buffer
+ *
+ * The recorder listens to the request events of the browser context, so it
+ * covers every page (tabs, popups) from the moment it is created.
+ * The buffer size and body truncation limit can be configured with
+ * NETWORK_LOG_SIZE and NETWORK_LOG_BODY_LIMIT.
+ */
+
+import { BrowserContext, Request, Response } from "playwright";
+import { BrowserState, NetworkLogEntry } from "../common/types";
+import { findTabId } from "./tabManager";
+
+// Default number of requests kept per session
+const DEFAULT_LOG_SIZE = 500;
+
+// Default number of characters kept from request and response bodies
+const DEFAULT_BODY_LIMIT = 2000;
+
+// Content types whose bodies are captured
+const TEXT_CONTENT_TYPES = /json|text|xml|javascript|x-www-form-urlencoded/i;
+
+/**
+ * Read a positive integer from an environment variable
+ */
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Truncate a body to the configured limit
+ */
+function truncateBody(body: string | null | undefined): string | undefined {
+  if (!body) {
+    return undefined;
+  }
+
+  const limit = readLimit(
+    process.env.NETWORK_LOG_BODY_LIMIT,
+    DEFAULT_BODY_LIMIT
+  );
+  return body.length > limit
+    ? `${body.slice(0, limit)}... [truncated ${body.length - limit} chars]`
+    : body;
+}
+
+/**
+ * Read the response body if it is text and of a request the agent cares about
+ */
+async function readResponseBody(
+  response: Response
+): Promise<string | undefined> {
+  const contentType = response.headers()["content-type"] ?? "";
+  const resourceType = response.request().resourceType();
+  if (
+    !TEXT_CONTENT_TYPES.test(contentType) ||
+    !["xhr", "fetch", "document"].includes(resourceType)
+  ) {
+    return undefined;
+  }
+
+  try {
+    return truncateBody((await response.body()).toString("utf-8"));
+  } catch {
+    // The body is not available for redirects and some cached responses
+    return undefined;
+  }
+}
+
+/**
+ * Add an entry to the ring buffer of the session
+ */
+function pushEntry(state: BrowserState, entry: NetworkLogEntry): void {
+  if (!state.networkLog) {
+    state.networkLog = [];
+  }
+
+  state.networkLog.push(entry);
+  const size = readLimit(process.env.NETWORK_LOG_SIZE, DEFAULT_LOG_SIZE);
+  if (state.networkLog.length > size) {
+    state.networkLog.splice(0, state.networkLog.length - size);
+  }
+}
+
+/**
+ * Record all network requests of a browser context into the session
+ */
+export function attachNetworkRecorder(
+  state: BrowserState,
+  browserContext: BrowserContext
+): void {
+  const pending = new WeakMap<
+    Request,
+    { entry: NetworkLogEntry; start: number }
+  >();
+
+  browserContext.on("request", (request) => {
+    state.nextRequestNumber = (state.nextRequestNumber ?? 0) + 1;
+
+    let tabId: string | undefined;
+    try {
+      tabId = findTabId(state, request.frame().page());
+    } catch {
+      // Service worker requests have no frame
+    }
+
+    const entry: NetworkLogEntry = {
+      id: `req-${state.nextRequestNumber}`,
+      tabId,
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType(),
+      failed: false,
+      startedAt: new Date().toISOString(),
+      requestHeaders: request.headers(),
+      requestBody: truncateBody(request.postData()),
+    };
+
+    pending.set(request, { entry, start: Date.now() });
+    pushEntry(state, entry);
+  });
+
+  browserContext.on("requestfinished", async (request) => {
+    const record = pending.get(request);
+    if (!record) {
+      return;
+    }
+    pending.delete(request);
+
+    const response = await request.response().catch(() => null);
+    record.entry.durationMs = Date.now() - record.start;
+    if (response) {
+      record.entry.status = response.status();
+      record.entry.statusText = response.statusText();
+      record.entry.responseHeaders = response.headers();
+      record.entry.responseBody = await readResponseBody(response);
+    }
+  });
+
+  browserContext.on("requestfailed", (request) => {
+    const record = pending.get(request);
+    if (!record) {
+      return;
+    }
+    pending.delete(request);
+
+    record.entry.durationMs = Date.now() - record.start;
+    record.entry.failed = true;
+    record.entry.failureText = request.failure()?.errorText;
+  });
+}
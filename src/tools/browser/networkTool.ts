@@ -0,0 +1,149 @@
+/**
+ * @file Browser Network Log Tools
+ * @description Tools for querying the requests captured by the network recorder
+ */
+
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { ToolContext } from "../common/types";
+import { safeBrowserOperation } from "./browserBaseTools";
+
+/**
+ * Tool for querying the network log
+ */
+export const getNetworkLogTool = createTool({
+  name: "getNetworkLog",
+  description:
+    "Get the network requests that already happened in the browser (most recent last), filtered by URL, method, status or failure",
+  parameters: z.object({
+    urlPattern: z
+      .string()
+      .optional()
+      .describe("Only include requests whose URL contains this text"),
+    isRegex: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Treat urlPattern as a regular expression"),
+    method: z
+      .string()
+      .optional()
+      .describe("Only include requests with this HTTP method (e.g. 'POST')"),
+    statusMin: z
+      .number()
+      .int()
+      .optional()
+      .describe("Only include responses with a status >= this value"),
+    statusMax: z
+      .number()
+      .int()
+      .optional()
+      .describe("Only include responses with a status <= this value"),
+    failedOnly: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "Only include requests that failed (network error or status >= 400)"
+      ),
+    resourceTypes: z
+      .array(z.string())
+      .optional()
+      .describe("Only include these resource types (e.g. ['xhr', 'fetch'])"),
+    tabId: z.string().optional().describe("Only include requests of this tab"),
+    includeHeaders: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Include request and response headers"),
+    includeBodies: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Include (truncated) request and response bodies"),
+    limit: z
+      .number()
+      .positive()
+      .optional()
+      .default(50)
+      .describe("Maximum number of (most recent) requests to return"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (_page, session) => {
+      const urlRegex =
+        args.isRegex && args.urlPattern
+          ? new RegExp(args.urlPattern)
+          : undefined;
+
+      const matches = (session.networkLog ?? []).filter((entry) => {
+        if (args.urlPattern) {
+          const matchesUrl = urlRegex
+            ? urlRegex.test(entry.url)
+            : entry.url.includes(args.urlPattern);
+          if (!matchesUrl) {
+            return false;
+          }
+        }
+        if (args.method && entry.method !== args.method.toUpperCase()) {
+          return false;
+        }
+        if (
+          args.statusMin !== undefined &&
+          (entry.status === undefined || entry.status < args.statusMin)
+        ) {
+          return false;
+        }
+        if (
+          args.statusMax !== undefined &&
+          (entry.status === undefined || entry.status > args.statusMax)
+        ) {
+          return false;
+        }
+        if (
+          args.failedOnly &&
+          !entry.failed &&
+          (entry.status === undefined || entry.status < 400)
+        ) {
+          return false;
+        }
+        if (
+          args.resourceTypes &&
+          !args.resourceTypes.includes(entry.resourceType)
+        ) {
+          return false;
+        }
+        return !args.tabId || entry.tabId === args.tabId;
+      });
+
+      const requests = matches.slice(-args.limit).map((entry) => {
+        const {
+          requestHeaders,
+          responseHeaders,
+          requestBody,
+          responseBody,
+          ...summary
+        } = entry;
+        return {
+          ...summary,
+          ...(args.includeHeaders && { requestHeaders, responseHeaders }),
+          ...(args.includeBodies && { requestBody, responseBody }),
+        };
+      });
+
+      return {
+        result: `Found ${matches.length} matching request(s), returning ${requests.length}`,
+        totalCount: matches.length,
+        requests,
+      };
+    });
+  },
+});
+
+/**
+ * Export all network log tools as a group
+ */
+export const networkTools = {
+  getNetworkLogTool,
+};
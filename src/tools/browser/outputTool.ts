@@ -7,6 +7,11 @@ import { z } from "zod";
 import { createTool } from "@voltagent/core";
 import { ToolContext } from "../common/types";
 import { safeBrowserOperation } from "./browserBaseTools";
+import {
+  frameParameter,
+  getFrameSelectors,
+  resolveFrame,
+} from "./frameManager";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -118,7 +123,8 @@ export const exportPdfTool = createTool({
  */
 export const extractDataTool = createTool({
   name: "extractData",
-  description: "Extract structured data from the page using CSS selectors",
+  description:
+    "Extract structured data from the page using CSS selectors (which pierce open shadow roots)",
   parameters: z.object({
     selectors: z
       .record(z.string())
@@ -128,18 +134,32 @@ export const extractDataTool = createTool({
       .optional()
       .default(false)
       .describe("Include HTML content for each selector"),
+    frame: frameParameter,
   }),
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
     return safeBrowserOperation(toolContext, async (page) => {
-      const extractedData = await page.evaluate(
+      const frame = await resolveFrame(page, args.frame);
+      const extractedData = await frame.evaluate(
         (params) => {
           const { selectors, includeHtml } = params;
           const result: Record<string, { text: string; html?: string }> = {};
 
           for (const [key, selector] of Object.entries(selectors)) {
-            const element = document.querySelector(selector);
+            // Query the document, then every open shadow root in it, depth
+            // first (with a stack: tsx wraps named functions in __name calls)
+            let element: Element | null = null;
+            const roots: (Document | ShadowRoot)[] = [document];
+            while (!element && roots.length) {
+              const root = roots.pop()!;
+              element = root.querySelector(selector);
+              const shadowRoots = Array.from(root.querySelectorAll("*"))
+                .map((host) => host.shadowRoot)
+                .filter((shadowRoot): shadowRoot is ShadowRoot => !!shadowRoot);
+              roots.push(...shadowRoots.reverse());
+            }
+
             if (element) {
               result[key] = {
                 text: (element.textContent || "").trim(),
@@ -163,6 +183,7 @@ export const extractDataTool = createTool({
           Object.keys(args.selectors).length
         } selectors`,
         data: extractedData,
+        frameSelectors: args.frame ? await getFrameSelectors(frame) : undefined,
       };
     });
   },
@@ -0,0 +1,32 @@
+/**
+ * @file Page Functions
+ * @description Creates functions in a frame from their source
+ *
+ * Playwright runs the functions it evaluates from their source. The dev
+ * server (tsx) keeps function names by wrapping named functions in __name(...)
+ * calls, which the page does not define: a function evaluated in the page
+ * must not name functions of its own, or must be created there with
+ * loadPageFunction, which defines __name around it. The handle is then passed
+ * as an argument to the (anonymous) function evaluated in the frame.
+ */
+
+import { Frame, JSHandle } from "playwright";
+
+/**
+ * Source of an expression creating a function in a page
+ */
+export function getPageFunctionSource(
+  pageFunction: (...args: never[]) => unknown
+): string {
+  return `((__name) => (${pageFunction.toString()}))((target) => target)`;
+}
+
+/**
+ * Create a function in a frame (the caller disposes of the handle)
+ */
+export function loadPageFunction<T extends (...args: never[]) => unknown>(
+  frame: Frame,
+  pageFunction: T
+): Promise<JSHandle<T>> {
+  return frame.evaluateHandle<T>(getPageFunctionSource(pageFunction));
+}
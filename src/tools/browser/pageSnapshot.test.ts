@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createFakeFrame, fakeElement, fakeText } from "../../test/fakeFrame";
+import { REF_ATTRIBUTE, takePageSnapshot } from "./pageSnapshot";
+
+describe("pageSnapshot", () => {
+  it("runs in a page without the helpers of the dev server", async () => {
+    const { frame, documentElement } = createFakeFrame(
+      fakeElement("HTML", {}, [
+        fakeElement("H1", {}, [fakeText("Settings")]),
+        fakeElement("BUTTON", {}, [fakeText("Save")]),
+      ])
+    );
+
+    const snapshot = await takePageSnapshot(frame);
+
+    assert.equal(
+      snapshot.snapshot,
+      [
+        '- heading "Settings" [level=1] [ref=e1]',
+        '- button "Save" [ref=e2]',
+      ].join("\n")
+    );
+    assert.deepEqual(snapshot.refs, [
+      { ref: "e1", role: "heading", name: "Settings" },
+      { ref: "e2", role: "button", name: "Save" },
+    ]);
+    assert.equal(documentElement.childNodes[1].attributes[REF_ATTRIBUTE], "e2");
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * @file Page Snapshots
+ * @description Builds a compact accessibility tree of a page with element references
+ *
+ * A snapshot lists the visible elements that have an ARIA role (explicit or
+ * implied by their tag, see ariaRole.ts) as an indented YAML-like tree, e.g.
+ *   - navigation [ref=e1]:
+ *     - link "Home" [ref=e2]
+ *   - textbox "Email" [ref=e3]: john@example.com
+ *   - checkbox "Remember me" [checked] [ref=e4]
+ * Each element is tagged with a data-volt-ref attribute so that the element
+ * tools can act on exactly that node through its ref (see elementResolver.ts).
+ */
+
+import { Frame } from "playwright";
+import { ElementRef } from "../common/types";
+import { AriaRoleFunction, loadAriaRole } from "./ariaRole";
+import { loadPageFunction } from "./pageFunction";
+
+// Attribute tagging the elements of the last snapshot with their ref
+export const REF_ATTRIBUTE = "data-volt-ref";
+
+// Maximum number of elements in a snapshot by default
+const DEFAULT_MAX_ELEMENTS = 500;
+
+/**
+ * Result of a page snapshot
+ */
+export interface PageSnapshot {
+  snapshot: string;
+  refs: ElementRef[];
+  truncated: boolean;
+}
+
+/**
+ * Options of a page snapshot
+ */
+export interface PageSnapshotOptions {
+  interactiveOnly?: boolean;
+  maxElements?: number;
+}
+
+/**
+ * Arguments of collectSnapshot
+ */
+interface SnapshotArguments {
+  refAttribute: string;
+  interactiveOnly: boolean;
+  maxElements: number;
+  getRole: AriaRoleFunction;
+}
+
+/**
+ * Build the snapshot tree of the document, tagging its elements with refs
+ * (runs in the browser, see pageFunction.ts)
+ */
+function collectSnapshot({
+  refAttribute,
+  interactiveOnly,
+  maxElements,
+  getRole,
+}: SnapshotArguments): {
+  lines: string[];
+  elements: ElementRef[];
+  truncated: boolean;
+} {
+  const SKIPPED_TAGS = new Set([
+    "SCRIPT",
+    "STYLE",
+    "NOSCRIPT",
+    "TEMPLATE",
+    "HEAD",
+    "META",
+    "LINK",
+  ]);
+  const INTERACTIVE_ROLES = new Set([
+    "button",
+    "link",
+    "textbox",
+    "searchbox",
+    "checkbox",
+    "radio",
+    "switch",
+    "combobox",
+    "listbox",
+    "option",
+    "slider",
+    "spinbutton",
+    "tab",
+    "menuitem",
+    "menuitemcheckbox",
+    "menuitemradio",
+    "treeitem",
+  ]);
+  // Roles whose accessible name is computed from their content
+  const NAME_FROM_CONTENT = new Set([
+    "button",
+    "link",
+    "heading",
+    "option",
+    "cell",
+    "columnheader",
+    "rowheader",
+    "tab",
+    "menuitem",
+    "menuitemcheckbox",
+    "menuitemradio",
+    "switch",
+    "treeitem",
+    "tooltip",
+  ]);
+  const normalize = (text: string | null | undefined) =>
+    (text ?? "").replace(/\s+/g, " ").trim();
+  const truncate = (text: string) =>
+    text.length > 100 ? `${text.slice(0, 100)}...` : text;
+
+  // Clear the refs of the previous snapshot, including in shadow roots
+  const clearRefs = (root: Document | ShadowRoot) => {
+    root.querySelectorAll("*").forEach((el) => {
+      el.removeAttribute(refAttribute);
+      if (el.shadowRoot) {
+        clearRefs(el.shadowRoot);
+      }
+    });
+  };
+  clearRefs(document);
+
+  const nameOf = (el: Element, role: string): string => {
+    const labelledBy = el.getAttribute("aria-labelledby");
+    if (labelledBy) {
+      const text = normalize(
+        labelledBy
+          .split(/\s+/)
+          .map((id) => el.ownerDocument.getElementById(id)?.textContent)
+          .join(" ")
+      );
+      if (text) {
+        return text;
+      }
+    }
+
+    const label = normalize(el.getAttribute("aria-label"));
+    if (label) {
+      return label;
+    }
+
+    if (
+      el instanceof HTMLInputElement &&
+      ["button", "submit", "reset"].includes(el.type)
+    ) {
+      return normalize(el.value) || (el.type === "reset" ? "Reset" : "Submit");
+    }
+    if (
+      el instanceof HTMLInputElement ||
+      el instanceof HTMLTextAreaElement ||
+      el instanceof HTMLSelectElement
+    ) {
+      const labels = Array.from(el.labels ?? []);
+      const text = normalize(
+        labels.map((labelElement) => labelElement.textContent).join(" ")
+      );
+      return (
+        text ||
+        normalize(el.getAttribute("placeholder")) ||
+        normalize(el.getAttribute("title"))
+      );
+    }
+    if (el instanceof HTMLImageElement) {
+      return normalize(el.alt) || normalize(el.title);
+    }
+    if (NAME_FROM_CONTENT.has(role)) {
+      return normalize((el as HTMLElement).innerText ?? el.textContent);
+    }
+    return normalize(el.getAttribute("title"));
+  };
+
+  const statesOf = (el: Element, role: string): string[] => {
+    const states: string[] = [];
+    if (role === "heading") {
+      const level =
+        el.getAttribute("aria-level") ?? el.tagName.match(/^H(\d)$/)?.[1];
+      if (level) {
+        states.push(`level=${level}`);
+      }
+    }
+
+    const checked =
+      el instanceof HTMLInputElement &&
+      (el.type === "checkbox" || el.type === "radio")
+        ? String(el.indeterminate ? "mixed" : el.checked)
+        : el.getAttribute("aria-checked");
+    if (checked === "true") {
+      states.push("checked");
+    } else if (checked === "mixed") {
+      states.push("checked=mixed");
+    }
+
+    if (
+      (el as HTMLButtonElement).disabled ||
+      el.getAttribute("aria-disabled") === "true"
+    ) {
+      states.push("disabled");
+    }
+    if (el.getAttribute("aria-expanded") === "true") {
+      states.push("expanded");
+    }
+    if (
+      (el instanceof HTMLOptionElement && el.selected) ||
+      el.getAttribute("aria-selected") === "true"
+    ) {
+      states.push("selected");
+    }
+    if (el.getAttribute("aria-pressed") === "true") {
+      states.push("pressed");
+    }
+    return states;
+  };
+
+  const valueOf = (el: Element): string => {
+    if (el instanceof HTMLInputElement) {
+      if (
+        ["checkbox", "radio", "button", "submit", "reset"].includes(el.type)
+      ) {
+        return "";
+      }
+      return el.type === "password" && el.value ? "****" : el.value;
+    }
+    if (el instanceof HTMLTextAreaElement) {
+      return el.value;
+    }
+    if (el instanceof HTMLSelectElement) {
+      return Array.from(el.selectedOptions)
+        .map((option) => normalize(option.textContent))
+        .join(", ");
+    }
+    return "";
+  };
+
+  const isHidden = (el: Element): boolean => {
+    if (
+      el.getAttribute("aria-hidden") === "true" ||
+      (el instanceof HTMLInputElement && el.type === "hidden")
+    ) {
+      return true;
+    }
+    const style = window.getComputedStyle(el);
+    return style.display === "none" || style.visibility === "hidden";
+  };
+
+  const lines: string[] = [];
+  const elements: ElementRef[] = [];
+  let truncated = false;
+
+  const visitChildren = (
+    parent: Element,
+    depth: number,
+    namedByContent: boolean
+  ) => {
+    const children = [
+      ...Array.from(parent.shadowRoot?.childNodes ?? []),
+      ...Array.from(parent.childNodes),
+    ];
+
+    for (const child of children) {
+      if (elements.length >= maxElements) {
+        truncated = true;
+        return;
+      }
+
+      if (child.nodeType === Node.TEXT_NODE) {
+        const text = normalize(child.textContent);
+        if (text && !namedByContent && !interactiveOnly) {
+          lines.push(`${"  ".repeat(depth)}- text: ${truncate(text)}`);
+        }
+      } else if (child instanceof Element) {
+        visit(child, depth, namedByContent);
+      }
+    }
+  };
+
+  const visit = (el: Element, depth: number, namedByContent: boolean) => {
+    if (SKIPPED_TAGS.has(el.tagName) || isHidden(el)) {
+      return;
+    }
+
+    const role = getRole(el);
+    if (!role || (interactiveOnly && !INTERACTIVE_ROLES.has(role))) {
+      visitChildren(el, depth, namedByContent);
+      return;
+    }
+
+    const ref = `e${elements.length + 1}`;
+    const name = nameOf(el, role);
+    el.setAttribute(refAttribute, ref);
+    elements.push({ ref, role, name });
+
+    const line = lines.length;
+    lines.push(
+      `${"  ".repeat(depth)}- ${role}${
+        name ? ` ${JSON.stringify(truncate(name))}` : ""
+      }${statesOf(el, role)
+        .map((state) => ` [${state}]`)
+        .join("")} [ref=${ref}]`
+    );
+
+    visitChildren(el, depth + 1, namedByContent || NAME_FROM_CONTENT.has(role));
+    if (lines.length > line + 1) {
+      lines[line] += ":";
+    } else {
+      const value = valueOf(el);
+      if (value) {
+        lines[line] += `: ${truncate(value)}`;
+      }
+    }
+  };
+
+  visitChildren(document.documentElement, 0, false);
+  return { lines, elements, truncated };
+}
+
+/**
+ * Take an accessibility snapshot of a frame, tagging its elements with refs
+ */
+export async function takePageSnapshot(
+  frame: Frame,
+  options: PageSnapshotOptions = {}
+): Promise<PageSnapshot> {
+  const getAriaRole = await loadAriaRole(frame);
+  const collect = await loadPageFunction(frame, collectSnapshot);
+  const { lines, elements, truncated } = await frame.evaluate(
+    ({ collect, ...args }) => collect(args),
+    {
+      collect,
+      refAttribute: REF_ATTRIBUTE,
+      interactiveOnly: options.interactiveOnly ?? false,
+      maxElements: options.maxElements ?? DEFAULT_MAX_ELEMENTS,
+      getRole: getAriaRole,
+    }
+  );
+  await Promise.all([getAriaRole.dispose(), collect.dispose()]);
+
+  return {
+    snapshot: lines.join("\n"),
+    refs: elements,
+    truncated,
+  };
+}
@@ -3,85 +3,408 @@
  * @description Handles browser lifecycle management, initialization, and cleanup
  *
  * This module provides core browser functionality for VoltAgent Playwright tools:
- * - Maintains global browser state (browser, context, page)
+ * - Keeps browser state (browser, context, page) in an isolated session per
+ *   conversation (see sessionManager.ts)
  * - Ensures browser is available when needed with ensureBrowser()
  * - Provides clean browser state reset with resetBrowserState()
- * - Supports different browser types (chromium, firefox, webkit)
+ * - Supports different browser types (chromium, firefox, webkit) configured
+ *   through env vars or a config file (see browserConfig.ts)
+ * - Can drive a browser that is already running (see browserConnection.ts)
  * - Preserves browser state between tool invocations when possible
+ * - Tracks every tab of the browser context (see tabManager.ts)
+ * - Answers JavaScript dialogs of every tab by policy (see dialogManager.ts)
+ * - Records the network requests of every tab (see networkRecorder.ts)
+ * - Optionally traces every session (see traceRecorder.ts)
+ * - Optionally records a video of every tab (see videoRecorder.ts)
  */
 
 import {
-  chromium,
-  firefox,
-  webkit,
   Browser,
   BrowserContext,
+  BrowserContextOptions,
   Page,
 } from "playwright";
-import { ToolContext } from "../common/types";
+import {
+  ActiveRoute,
+  BrowserLaunchConfig,
+  BrowserSession,
+  BrowserState,
+  RouteInfo,
+  ToolContext,
+} from "../common/types";
+import { getBrowserType, loadBrowserConfig } from "./browserConfig";
+import { connectToBrowser, releaseBrowser } from "./browserConnection";
+import { attachDialogHandler } from "./dialogManager";
+import { attachNetworkRecorder } from "./networkRecorder";
+import { browserSessions } from "./sessionManager";
+import { getStorageStatePath } from "./storageProfiles";
+import { registerTab, resetTabs, trackTabs } from "./tabManager";
+import { saveSessionTrace, startTrace } from "./traceRecorder";
+import { attachVideoRecorder, createVideoRecording } from "./videoRecorder";
 
-// Flag to track if browser is initializing to prevent concurrent initialization
-let isInitializing = false;
+/**
+ * Get the storage state profile the session is (or will be) signed in with
+ */
+export function getStorageStateProfile(
+  session: BrowserSession
+): string | undefined {
+  return (
+    session.storageStateProfile ??
+    (session.browserConfig ?? loadBrowserConfig()).storageState
+  );
+}
 
 /**
- * Ensures a browser instance is available and returns it along with an active page
+ * Build the options used to create the browser context of a session
  */
-export async function ensureBrowser(
-  context: ToolContext
-): Promise<{ browser: Browser; page: Page }> {
-  // Prevent concurrent initialization
-  if (isInitializing) {
-    console.log("Browser initialization in progress, waiting...");
-    // Wait until initialization is complete
-    while (isInitializing) {
-      await new Promise((resolve) => setTimeout(resolve, 100));
-    }
+function getContextOptions(session: BrowserSession): BrowserContextOptions {
+  const config = session.browserConfig ?? loadBrowserConfig();
+  const profile = getStorageStateProfile(session);
+
+  return {
+    viewport: config.viewport,
+    deviceScaleFactor: config.deviceScaleFactor,
+    storageState: profile ? getStorageStatePath(profile) : undefined,
+    ...session.contextOptions,
+  };
+}
+
+/**
+ * Creates a new browser context (and its first page) for the session.
+ * Any previous context is left open for the caller to close.
+ */
+async function openSessionContext(
+  session: BrowserSession,
+  extraOptions: BrowserContextOptions = {}
+): Promise<void> {
+  const config = session.browserConfig ?? loadBrowserConfig();
+
+  // Keep recording into the same directory and timeline when the context is recreated
+  if (config.recordVideo && !session.videoRecording) {
+    session.videoRecording = createVideoRecording(session.id);
+  }
+
+  const browserContext = await session.browser!.newContext({
+    ...getContextOptions(session),
+    ...(session.videoRecording && {
+      recordVideo: {
+        dir: session.videoRecording.dir,
+        size: config.viewport,
+      },
+    }),
+    ...extraOptions,
+  });
+
+  await setupSessionContext(session, browserContext, true);
+}
+
+/**
+ * Makes a browser context the context of the session: tracks its tabs and
+ * network traffic, and selects its first page (opening one if it has none)
+ */
+async function setupSessionContext(
+  session: BrowserSession,
+  browserContext: BrowserContext,
+  ownsContext: boolean
+): Promise<void> {
+  const config = session.browserConfig ?? loadBrowserConfig();
+
+  // Serve responses from a HAR file instead of the network
+  if (config.replayFromHar) {
+    await browserContext.routeFromHAR(config.replayFromHar, {
+      notFound: config.harNotFound,
+    });
   }
 
+  resetTabs(session);
+  session.routes = undefined;
+  session.browserContext = browserContext;
+  session.ownsContext = ownsContext;
+  trackTabs(session, browserContext);
+  attachDialogHandler(session, browserContext);
+  attachNetworkRecorder(session, browserContext);
+  if (session.videoRecording) {
+    attachVideoRecorder(session, browserContext);
+  }
+
+  // Trace every session when configured to
+  if (config.traceAll && !session.tracing) {
+    await startTrace(session, {
+      title: session.id,
+      screenshots: true,
+      snapshots: true,
+      sources: true,
+      auto: true,
+    });
+  }
+
+  session.page = browserContext.pages()[0] ?? (await browserContext.newPage());
+  session.activeTabId = registerTab(session, session.page);
+}
+
+/**
+ * Launches the browser of a session if it is not running, and makes sure a page is open.
+ * Must be called while holding the session lock.
+ */
+async function initializeSession(session: BrowserSession): Promise<void> {
   // Check if browser is already initialized
-  if (!context.browser || !context.browser.isConnected()) {
+  if (!session.browser || !session.browser.isConnected()) {
     try {
-      isInitializing = true;
-      console.log("Launching new browser instance...");
+      const config = session.browserConfig ?? loadBrowserConfig();
+      session.browserConfig = config;
 
-      // Launch a new browser - using chromium by default
-      context.browser = await chromium.launch({
-        headless: false, // Set to true for production use
-        slowMo: 40, // Slow down operations for better visibility during testing
+      let browser: Browser;
+      if (config.connectEndpoint) {
+        console.log(
+          `Connecting session ${session.id} to browser at ${config.connectEndpoint}...`
+        );
+        browser = await connectToBrowser(config);
+      } else {
+        console.log(
+          `Launching new ${config.engine} browser instance for session ${session.id}...`
+        );
+        browser = await getBrowserType(config.engine).launch({
+          headless: config.headless,
+          slowMo: config.slowMo,
+          executablePath: config.executablePath,
+          args: config.args,
+        });
+      }
+      session.browser = browser;
+      session.connected = !!config.connectEndpoint;
+      browser.on("disconnected", () => {
+        // Only reset if the session has not moved on to another browser
+        if (session.browser === browser) {
+          resetBrowserState(session);
+        }
       });
 
-      // Create a new context and page
-      const browserContext = await context.browser.newContext({
-        viewport: {
-          width: 1280,
-          height: 720,
-        },
-        deviceScaleFactor: 1,
-      });
-      context.page = await browserContext.newPage();
-      console.log("Browser launched successfully");
+      // Reuse the context and pages of a browser the agent connected to
+      const existingContext = session.connected
+        ? browser.contexts()[0]
+        : undefined;
+      if (existingContext) {
+        await setupSessionContext(session, existingContext, false);
+      } else {
+        await openSessionContext(session);
+      }
+      console.log(
+        `Browser ${session.connected ? "connected" : "launched"} successfully`
+      );
     } catch (error) {
       console.error("Failed to initialize browser:", error);
+      // For connected browsers, close() only disconnects
+      await session.browser?.close().catch(() => undefined);
+      resetBrowserState(session);
       throw error;
-    } finally {
-      isInitializing = false;
     }
-  } else if (!context.page || context.page.isClosed()) {
-    // Create a new page if needed
-    context.page = await context.browser.newPage();
+  } else if (!session.page || session.page.isClosed()) {
+    // Create a new page if needed, reusing the existing context
+    session.page = session.browserContext
+      ? await session.browserContext.newPage()
+      : await session.browser.newPage();
+    session.activeTabId = registerTab(session, session.page);
     console.log("Created new page in existing browser");
   }
+}
+
+/**
+ * Ensures a browser instance is available for the conversation's session
+ * and returns it along with the active page
+ */
+export async function ensureBrowser(
+  context: ToolContext
+): Promise<{ browser: Browser; page: Page; session: BrowserSession }> {
+  const session = browserSessions.getOrCreateSession(context);
+
+  return browserSessions.runExclusive(session.id, async () => {
+    await initializeSession(session);
+    return { browser: session.browser!, page: session.page!, session };
+  });
+}
+
+/**
+ * Get the browser session of a tool invocation without launching a browser
+ */
+export function getBrowserSession(context: ToolContext): BrowserSession {
+  return browserSessions.getOrCreateSession(context);
+}
+
+/**
+ * Closes the current browser (if any) and launches a new one with the given config
+ */
+export async function relaunchBrowser(
+  context: ToolContext,
+  config: BrowserLaunchConfig
+): Promise<{ browser: Browser; page: Page; session: BrowserSession }> {
+  const session = browserSessions.getOrCreateSession(context);
+
+  return browserSessions.runExclusive(session.id, async () => {
+    await releaseBrowser(session);
+    resetBrowserState(session);
+
+    session.browserConfig = config;
+    await initializeSession(session);
+    return { browser: session.browser!, page: session.page!, session };
+  });
+}
+
+/**
+ * Registers the routes of the previous current tab on the current page of the
+ * new context. Routes of the other tabs are dropped with their tabs and
+ * returned.
+ */
+async function restoreRoutes(
+  session: BrowserSession,
+  routes: Map<string, ActiveRoute> | undefined,
+  previousPage: Page | undefined
+): Promise<RouteInfo[]> {
+  const droppedRoutes: RouteInfo[] = [];
+
+  for (const route of routes?.values() ?? []) {
+    const { page, matcher, handler, ...info } = route;
+    if (page !== previousPage) {
+      droppedRoutes.push(info);
+      continue;
+    }
+
+    await session.page!.route(
+      matcher,
+      handler,
+      route.mode === "once" ? { times: 1 } : undefined
+    );
+    if (!session.routes) {
+      session.routes = new Map();
+    }
+    session.routes.set(route.id, {
+      ...route,
+      page: session.page!,
+      tabId: session.activeTabId,
+    });
+  }
+
+  return droppedRoutes;
+}
+
+/**
+ * Describe the routes dropped by recreateBrowserContext for the agent
+ */
+export function describeDroppedRoutes(droppedRoutes: RouteInfo[]): string {
+  return droppedRoutes.length
+    ? ` (dropped the routes of other tabs: ${droppedRoutes
+        .map((route) => route.id)
+        .join(", ")})`
+    : "";
+}
+
+/**
+ * Replaces the browser context of the session with a new one created with the
+ * given options, keeping the browser and reopening the current URL.
+ * The options are kept for any context created later in the session.
+ * With preserveStorageState, cookies and localStorage are carried over.
+ * The routes of the current tab are registered on the new page, and the
+ * routes of other tabs are dropped and returned.
+ * Refused during a HAR recording (unless the options start or stop it): the
+ * new context would record to the same file and overwrite the traffic
+ * recorded so far.
+ */
+export async function recreateBrowserContext(
+  context: ToolContext,
+  options: BrowserContextOptions,
+  preserveStorageState = false
+): Promise<{
+  page: Page;
+  session: BrowserSession;
+  droppedRoutes: RouteInfo[];
+}> {
+  const session = browserSessions.getOrCreateSession(context);
+
+  return browserSessions.runExclusive(session.id, async () => {
+    if (session.harRecording && !("recordHar" in options)) {
+      throw new Error(
+        `A HAR recording is in progress (${session.harRecording.path}): stop it with stopHarRecording before changing the browser context`
+      );
+    }
+
+    await initializeSession(session);
+
+    const previousContext = session.browserContext;
+    const ownsPreviousContext = session.ownsContext;
+    const previousPage = session.page;
+    const previousRoutes = session.routes;
+    const previousUrl = session.page!.url();
+    const storageState =
+      preserveStorageState && previousContext
+        ? await previousContext.storageState()
+        : undefined;
+
+    // Tracing is bound to the context: save it and continue in the new one
+    const tracing = session.tracing;
+    await saveSessionTrace(session);
+
+    session.contextOptions = { ...session.contextOptions, ...options };
+    await openSessionContext(session, storageState && { storageState });
+    const droppedRoutes = await restoreRoutes(
+      session,
+      previousRoutes,
+      previousPage
+    );
+
+    if (tracing && !session.tracing) {
+      await startTrace(session, tracing);
+    }
+
+    // Leave the context of a browser the agent connected to open
+    if (ownsPreviousContext) {
+      await previousContext?.close().catch((error) => {
+        console.error("Error while closing previous browser context:", error);
+      });
+    }
+
+    if (previousUrl && previousUrl !== "about:blank") {
+      await session.page!.goto(previousUrl);
+    }
+
+    return { page: session.page!, session, droppedRoutes };
+  });
+}
+
+/**
+ * Closes the browser of the conversation's session (or disconnects from a
+ * browser the agent connected to) and removes the session.
+ * Returns false if there was no browser to close.
+ */
+export async function closeBrowser(context: ToolContext): Promise<boolean> {
+  const sessionId = browserSessions.resolveSessionId(context);
+  const hadBrowser = !!browserSessions.getSession(sessionId)?.browser;
 
-  return { browser: context.browser, page: context.page };
+  await browserSessions.closeSession(sessionId);
+  return hadBrowser;
 }
 
 /**
  * Function to reset browser state
  */
-export function resetBrowserState(context?: ToolContext): void {
-  if (context) {
-    context.browser = undefined;
-    context.page = undefined;
+export function resetBrowserState(state?: BrowserState): void {
+  if (state) {
+    state.browser = undefined;
+    state.browserContext = undefined;
+    state.page = undefined;
+    state.connected = undefined;
+    state.ownsContext = undefined;
+    state.contextOptions = undefined;
+    state.harRecording = undefined;
+    state.routes = undefined;
+    state.dialogPolicies = undefined;
+    state.dialogLog = undefined;
+    state.elementRefs = undefined;
+    state.elementMarks = undefined;
+    state.elementFingerprints = undefined;
+    state.networkLog = undefined;
+    state.nextRequestNumber = undefined;
+    state.tracing = undefined;
+    state.videoRecording = undefined;
+    resetTabs(state);
   }
   console.log("Browser state reset");
 }
@@ -0,0 +1,367 @@
+/**
+ * @file Browser Route Tools
+ * @description Tools for intercepting, mocking, modifying and aborting network requests
+ *
+ * Routes are registered on the current tab with page.route() and tracked in the
+ * browser session so they can be listed and cleared. When the browser context
+ * is recreated (emulateDevice, loadStorageState, HAR recording), the routes of
+ * the current tab move to the new page and those of other tabs are dropped.
+ */
+
+import * as fs from "fs";
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import type { Page, Route } from "playwright";
+import {
+  ActiveRoute,
+  BrowserSession,
+  RouteInfo,
+  ToolContext,
+} from "../common/types";
+import { safeBrowserOperation } from "./browserBaseTools";
+import { findTabId } from "./tabManager";
+
+// Error codes accepted by route.abort()
+const ABORT_ERROR_CODES = [
+  "aborted",
+  "accessdenied",
+  "addressunreachable",
+  "blockedbyclient",
+  "blockedbyresponse",
+  "connectionaborted",
+  "connectionclosed",
+  "connectionfailed",
+  "connectionrefused",
+  "connectionreset",
+  "internetdisconnected",
+  "namenotresolved",
+  "timedout",
+  "failed",
+] as const;
+
+/**
+ * Parameters shared by all route tools
+ */
+const routeMatchSchema = {
+  url: z
+    .string()
+    .describe(
+      "URL glob (e.g. '**/api/users*') or regular expression source (with isRegex)"
+    ),
+  isRegex: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Treat url as a regular expression"),
+  mode: z
+    .enum(["once", "always"])
+    .optional()
+    .default("always")
+    .describe("Handle only the first matching request, or all of them"),
+  delay: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("Latency to add before responding, in milliseconds"),
+};
+
+/**
+ * Parameters describing a response body and headers
+ */
+const responseSchema = {
+  status: z.number().int().min(100).max(599).optional().describe("HTTP status"),
+  headers: z.record(z.string()).optional().describe("Response headers"),
+  contentType: z.string().optional().describe("Content-Type of the response"),
+  json: z
+    .any()
+    .optional()
+    .describe("JSON body (serialized and sent as application/json)"),
+  body: z.string().optional().describe("Text body"),
+  bodyFile: z
+    .string()
+    .optional()
+    .describe("Path of a file to use as the response body"),
+};
+
+type ResponseArgs = {
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  json?: unknown;
+  body?: string;
+  bodyFile?: string;
+};
+
+/**
+ * Build the route.fulfill() options for a response
+ */
+function buildFulfillOptions(args: ResponseArgs) {
+  if (args.bodyFile && !fs.existsSync(args.bodyFile)) {
+    throw new Error(`Body file not found: ${args.bodyFile}`);
+  }
+
+  return {
+    status: args.status,
+    headers: args.headers,
+    contentType: args.contentType,
+    ...(args.json !== undefined && { json: args.json }),
+    ...(args.body !== undefined && { body: args.body }),
+    ...(args.bodyFile !== undefined && { path: args.bodyFile }),
+  };
+}
+
+/**
+ * Wait for the configured latency
+ */
+async function applyDelay(delay?: number): Promise<void> {
+  if (delay) {
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Summarize a route for the agent
+ */
+function toRouteInfo(route: ActiveRoute): RouteInfo {
+  const { page, matcher, handler, ...info } = route;
+  return info;
+}
+
+/**
+ * Register a route on the page and track it in the session
+ */
+async function registerRoute(
+  page: Page,
+  session: BrowserSession,
+  options: Omit<RouteInfo, "id" | "hits" | "tabId">,
+  respond: (route: Route) => Promise<void>
+): Promise<RouteInfo> {
+  if (!session.routes) {
+    session.routes = new Map();
+  }
+  session.nextRouteNumber = (session.nextRouteNumber ?? 0) + 1;
+  const id = `route-${session.nextRouteNumber}`;
+
+  const activeRoute: ActiveRoute = {
+    ...options,
+    id,
+    hits: 0,
+    tabId: findTabId(session, page),
+    page,
+    matcher: options.isRegex ? new RegExp(options.url) : options.url,
+    handler: async (route) => {
+      activeRoute.hits++;
+      if (options.mode === "once") {
+        session.routes?.delete(id);
+      }
+      await applyDelay(options.delay);
+      await respond(route);
+    },
+  };
+
+  await page.route(
+    activeRoute.matcher,
+    activeRoute.handler,
+    options.mode === "once" ? { times: 1 } : undefined
+  );
+  session.routes.set(id, activeRoute);
+
+  return toRouteInfo(activeRoute);
+}
+
+/**
+ * Tool for mocking responses of matching requests
+ */
+export const mockRouteTool = createTool({
+  name: "mockRoute",
+  description:
+    "Mock the response of matching network requests on the current tab (status, headers, JSON/text/file body, latency) without hitting the real backend",
+  parameters: z.object({
+    ...routeMatchSchema,
+    ...responseSchema,
+    status: responseSchema.status.default(200),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const fulfillOptions = buildFulfillOptions(args);
+      const route = await registerRoute(
+        page,
+        session,
+        {
+          action: "mock",
+          url: args.url,
+          isRegex: args.isRegex,
+          mode: args.mode,
+          status: args.status,
+          delay: args.delay,
+        },
+        (route) => route.fulfill(fulfillOptions)
+      );
+
+      return {
+        result: `Mocking ${args.url} with status ${args.status} (${route.id})`,
+        route,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for aborting matching requests
+ */
+export const abortRouteTool = createTool({
+  name: "abortRoute",
+  description:
+    "Make matching network requests on the current tab fail with a network error",
+  parameters: z.object({
+    ...routeMatchSchema,
+    errorCode: z
+      .enum(ABORT_ERROR_CODES)
+      .optional()
+      .default("failed")
+      .describe("Network error to fail the request with"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const route = await registerRoute(
+        page,
+        session,
+        {
+          action: "abort",
+          url: args.url,
+          isRegex: args.isRegex,
+          mode: args.mode,
+          delay: args.delay,
+        },
+        (route) => route.abort(args.errorCode)
+      );
+
+      return {
+        result: `Aborting ${args.url} with ${args.errorCode} (${route.id})`,
+        route,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for modifying real responses of matching requests
+ */
+export const modifyRouteTool = createTool({
+  name: "modifyRoute",
+  description:
+    "Let matching requests on the current tab reach the real backend, then override the status, headers and/or body of the response",
+  parameters: z.object({
+    ...routeMatchSchema,
+    ...responseSchema,
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const fulfillOptions = buildFulfillOptions(args);
+      const route = await registerRoute(
+        page,
+        session,
+        {
+          action: "modify",
+          url: args.url,
+          isRegex: args.isRegex,
+          mode: args.mode,
+          status: args.status,
+          delay: args.delay,
+        },
+        async (route) => {
+          const response = await route.fetch();
+          await route.fulfill({
+            ...fulfillOptions,
+            response,
+            headers: { ...response.headers(), ...args.headers },
+          });
+        }
+      );
+
+      return {
+        result: `Modifying responses of ${args.url} (${route.id})`,
+        route,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for listing active routes
+ */
+export const listRoutesTool = createTool({
+  name: "listRoutes",
+  description: "List the active network routes (mocks, aborts, modifications)",
+  parameters: z.object({}),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (_page, session) => {
+      const routes = Array.from(session.routes?.values() ?? [])
+        .filter((route) => !route.page.isClosed())
+        .map(toRouteInfo);
+
+      return {
+        result: `Found ${routes.length} active route(s)`,
+        routes,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for removing routes
+ */
+export const clearRoutesTool = createTool({
+  name: "clearRoutes",
+  description:
+    "Remove a network route by ID, or all routes registered by the route tools",
+  parameters: z.object({
+    routeId: z
+      .string()
+      .optional()
+      .describe("ID of the route to remove (defaults to all routes)"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (_page, session) => {
+      const routes = Array.from(session.routes?.values() ?? []).filter(
+        (route) => !args.routeId || route.id === args.routeId
+      );
+      if (args.routeId && routes.length === 0) {
+        throw new Error(`No active route found with ID: ${args.routeId}`);
+      }
+
+      for (const route of routes) {
+        if (!route.page.isClosed()) {
+          await route.page.unroute(route.matcher, route.handler);
+        }
+        session.routes?.delete(route.id);
+      }
+
+      return {
+        result: `Removed ${routes.length} route(s)`,
+        cleared: routes.map(toRouteInfo),
+      };
+    });
+  },
+});
+
+/**
+ * Export all route tools as a group
+ */
+export const routeTools = {
+  mockRouteTool,
+  abortRouteTool,
+  modifyRouteTool,
+  listRoutesTool,
+  clearRoutesTool,
+};
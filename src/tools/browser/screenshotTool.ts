@@ -1,22 +1,67 @@
 /**
  * @file Browser Screenshot Tools
  * @description VoltAgent tools for capturing screenshots in browser
+ *
+ * Screenshots are returned as an image part of the tool result, which vision
+ * models see as an image when wrapped with withToolResultImages (see
+ * toolResultImages.ts).
+ *
+ * compareScreenshot is a visual regression check: the first screenshot of a
+ * name is saved as its baseline in BASELINE_DIR (defaults to ./baselines),
+ * and later screenshots are compared with it pixel by pixel (see
+ * imageDiff.ts). The actual screenshot and a diff image are saved next to
+ * the baseline when pixels changed.
  */
 
 import { z } from "zod";
 import { createTool } from "@voltagent/core";
-import { ToolContext } from "../common/types";
+import { ToolContext, ToolImage } from "../common/types";
 import { safeBrowserOperation } from "./browserBaseTools";
+import { locatorParameter, refParameter } from "./elementLocator";
+import { resolveElement, ResolvedElement } from "./elementResolver";
+import { frameParameter } from "./frameManager";
+import { DEFAULT_DIFF_THRESHOLD, diffImages } from "./imageDiff";
 import path from "path";
 import fs from "fs";
 
+// Directory of the baselines when BASELINE_DIR is not set
+const DEFAULT_BASELINE_DIR = "baselines";
+
+/**
+ * Get the path of a baseline screenshot (or of its actual or diff image)
+ */
+export function getBaselinePath(name: string, suffix = ""): string {
+  const dir = path.resolve(process.env.BASELINE_DIR || DEFAULT_BASELINE_DIR);
+  const fileName = name.replace(/\.png$/i, "").replace(/[^\w.-]+/g, "_");
+  return path.join(dir, `${fileName}${suffix}.png`);
+}
+
 /**
- * Tool for capturing a screenshot of the current page
+ * Tool for capturing a screenshot of the current page or of an element
  */
 export const screenshotTool = createTool({
   name: "screenshot",
-  description: "Capture a screenshot of the current page",
+  description:
+    "Capture a screenshot of the page, of an element or of a region. The image is returned so that vision models can see it",
   parameters: z.object({
+    selector: z
+      .string()
+      .optional()
+      .describe(
+        "CSS or XPath selector of an element to capture (or use locator or ref)"
+      ),
+    locator: locatorParameter,
+    ref: refParameter,
+    frame: frameParameter,
+    clip: z
+      .object({
+        x: z.number(),
+        y: z.number(),
+        width: z.number().positive(),
+        height: z.number().positive(),
+      })
+      .optional()
+      .describe("Region of the page to capture, in CSS pixels"),
     fullPage: z
       .boolean()
       .optional()
@@ -26,13 +71,36 @@ export const screenshotTool = createTool({
       .string()
       .optional()
       .describe("Optional path to save the screenshot"),
+    type: z
+      .enum(["png", "jpeg"])
+      .optional()
+      .describe("Image format (defaults to the extension of path, or png)"),
     quality: z
       .number()
       .min(0)
       .max(100)
       .optional()
-      .default(80)
-      .describe("JPEG quality (0-100)"),
+      .describe("JPEG quality (0-100, JPEG only)"),
+    mask: z
+      .array(z.string())
+      .optional()
+      .describe("Selectors of elements to cover with a pink box"),
+    highlight: z
+      .array(z.string())
+      .optional()
+      .describe("Selectors of elements to outline in red"),
+    animations: z
+      .enum(["allow", "disabled"])
+      .optional()
+      .default("allow")
+      .describe(
+        "Stop CSS animations and transitions ('disabled') for a stable screenshot"
+      ),
+    returnImage: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Return the image in the result (for vision models)"),
     timeout: z
       .number()
       .positive()
@@ -43,10 +111,15 @@ export const screenshotTool = createTool({
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
-    return safeBrowserOperation(toolContext, async (page) => {
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const type =
+        args.type ?? (/\.jpe?g$/i.test(args.path ?? "") ? "jpeg" : "png");
+      // Playwright rejects a quality for PNG screenshots
       const screenshotOptions = {
-        fullPage: args.fullPage,
-        quality: args.quality,
+        type,
+        quality: type === "jpeg" ? args.quality ?? 80 : undefined,
+        mask: args.mask?.map((selector) => page.locator(selector)),
+        animations: args.animations,
         timeout: args.timeout,
       };
 
@@ -56,25 +129,194 @@ export const screenshotTool = createTool({
         if (!fs.existsSync(dir)) {
           fs.mkdirSync(dir, { recursive: true });
         }
+      }
+
+      const highlighted = (args.highlight ?? []).map((selector) =>
+        page.locator(selector)
+      );
+      await Promise.all(
+        highlighted.map((locator) =>
+          locator.evaluateAll((elements) =>
+            elements.forEach((el) => {
+              const style = (el as HTMLElement).style;
+              el.setAttribute("data-volt-outline", style.outline);
+              style.outline = "3px solid #ff0033";
+            })
+          )
+        )
+      );
+
+      let buffer: Buffer;
+      let target: ResolvedElement | undefined;
+      try {
+        if (args.selector || args.locator || args.ref) {
+          target = await resolveElement(page, session, args);
+          buffer = await target.element.screenshot({
+            ...screenshotOptions,
+            path: args.path,
+          });
+        } else {
+          buffer = await page.screenshot({
+            ...screenshotOptions,
+            fullPage: args.clip ? false : args.fullPage,
+            clip: args.clip,
+            path: args.path,
+          });
+        }
+      } finally {
+        await Promise.all(
+          highlighted.map((locator) =>
+            locator
+              .evaluateAll((elements) =>
+                elements.forEach((el) => {
+                  (el as HTMLElement).style.outline =
+                    el.getAttribute("data-volt-outline") ?? "";
+                  el.removeAttribute("data-volt-outline");
+                })
+              )
+              .catch(() => undefined)
+          )
+        );
+      }
+
+      const image: ToolImage | undefined = args.returnImage
+        ? {
+            type: "image",
+            data: buffer.toString("base64"),
+            mimeType: `image/${type}`,
+          }
+        : undefined;
+      const subject = target ? ` of ${target.description}` : "";
+
+      return {
+        result: args.path
+          ? `Screenshot${subject} saved to ${args.path}`
+          : `Screenshot${subject} captured successfully`,
+        filePath: args.path,
+        image,
+        frameSelectors: target?.frameSelectors,
+        ref: target?.ref,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for comparing the page with a baseline screenshot
+ */
+export const compareScreenshotTool = createTool({
+  name: "compareScreenshot",
+  description:
+    "Compare the page with a named baseline screenshot (saved on the first run) and report the percentage of changed pixels",
+  parameters: z.object({
+    name: z
+      .string()
+      .describe("Name of the baseline (e.g. 'home-page'), reused across runs"),
+    fullPage: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Capture the full page or just the viewport"),
+    mask: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Selectors of elements to mask (dates, ads, avatars, ...) in both screenshots"
+      ),
+    threshold: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .default(DEFAULT_DIFF_THRESHOLD)
+      .describe(
+        "Color difference between 0 (strict) and 1 for a pixel to count as changed"
+      ),
+    maxDiffPercent: z
+      .number()
+      .min(0)
+      .max(100)
+      .optional()
+      .default(0)
+      .describe("Percentage of changed pixels tolerated for the check to pass"),
+    includeAntialiasing: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Count anti-aliased pixels as changed (ignored by default)"),
+    updateBaseline: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Replace the baseline with the current screenshot"),
+    timeout: z
+      .number()
+      .positive()
+      .optional()
+      .default(30000)
+      .describe("Timeout in milliseconds"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
 
-        await page.screenshot({
-          ...screenshotOptions,
-          path: args.path,
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      // Capture like toHaveScreenshot does, for stable comparisons
+      const actual = await page.screenshot({
+        fullPage: args.fullPage,
+        mask: args.mask?.map((selector) => page.locator(selector)),
+        animations: "disabled",
+        caret: "hide",
+        scale: "css",
+        timeout: args.timeout,
+      });
+
+      const baselinePath = getBaselinePath(args.name);
+      if (args.updateBaseline || !fs.existsSync(baselinePath)) {
+        await fs.promises.mkdir(path.dirname(baselinePath), {
+          recursive: true,
         });
+        await fs.promises.writeFile(baselinePath, actual);
 
         return {
-          result: `Screenshot saved to ${args.path}`,
-          filePath: args.path,
+          result: `Baseline ${args.name} saved to ${baselinePath}`,
+          baselineCreated: true,
+          passed: true,
+          baselinePath,
         };
       }
 
-      // Otherwise return base64 data
-      const buffer = await page.screenshot(screenshotOptions);
-      const base64Data = buffer.toString("base64");
+      const baseline = await fs.promises.readFile(baselinePath);
+      const diff = await diffImages(session.browser!, baseline, actual, {
+        threshold: args.threshold,
+        includeAntialiasing: args.includeAntialiasing,
+      });
+      const diffPercent =
+        Math.round((diff.diffPixels / diff.totalPixels) * 10000) / 100;
+      const passed = diffPercent <= args.maxDiffPercent;
+
+      // Keep the actual screenshot and the diff image for review
+      const actualPath = getBaselinePath(args.name, "-actual");
+      const diffPath = getBaselinePath(args.name, "-diff");
+      if (diff.diffPixels > 0) {
+        await fs.promises.writeFile(actualPath, actual);
+        await fs.promises.writeFile(diffPath, diff.diff);
+      } else {
+        await fs.promises.rm(actualPath, { force: true });
+        await fs.promises.rm(diffPath, { force: true });
+      }
 
       return {
-        result: "Screenshot captured successfully",
-        data: `data:image/jpeg;base64,${base64Data}`,
+        result: `${diffPercent}% of pixels changed from baseline ${
+          args.name
+        } (${passed ? "passed" : "failed"}, ${args.maxDiffPercent}% tolerated)`,
+        passed,
+        diffPercent,
+        diffPixels: diff.diffPixels,
+        totalPixels: diff.totalPixels,
+        sizeChanged: diff.sizeChanged,
+        baselinePath,
+        actualPath: diff.diffPixels > 0 ? actualPath : undefined,
+        diffPath: diff.diffPixels > 0 ? diffPath : undefined,
       };
     });
   },
@@ -85,4 +327,5 @@ export const screenshotTool = createTool({
  */
 export const screenshotTools = {
   screenshotTool,
+  compareScreenshotTool,
 };
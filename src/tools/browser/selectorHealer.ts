@@ -0,0 +1,415 @@
+/**
+ * @file Selector Healing
+ * @description Opt-in recovery of element tools whose selector no longer matches
+ *
+ * With selfHealing enabled (BROWSER_SELF_HEALING), element tools remember a
+ * fingerprint of the element each selector or locator finds (tag, role, text,
+ * attributes and position). When the selector later times out, the elements
+ * of the page are scored against that fingerprint, or against what the
+ * selector itself says when there is none: same text, same role, similar
+ * attributes, and the element that moved. Timeouts of a selector that still
+ * finds an element (covered or disabled) are not healed. The tool is retried
+ * on the best match, with a timeout of at most 5 seconds, through a selector
+ * synthesized for it (see selectorSynthesizer.ts), and the healed selector is
+ * recorded in the active codegen session so generated tests use it.
+ */
+
+import { errors, Frame, Locator } from "playwright";
+import {
+  BrowserSession,
+  ElementFingerprint,
+  ElementLocator,
+  ToolContext,
+} from "../common/types";
+import { playwrightGenerator } from "../codegen/generator";
+import { getCodegenSessionId } from "../codegen/codegenRecorder";
+import { AriaRoleFunction, loadAriaRole } from "./ariaRole";
+import { formatLocator, resolveLocator } from "./elementLocator";
+import { ElementTarget, ResolvedElement } from "./elementResolver";
+import { loadPageFunction } from "./pageFunction";
+import { synthesizeSelector } from "./selectorSynthesizer";
+
+// Minimum confidence of a match to retry the tool on it
+const MIN_CONFIDENCE = 0.5;
+
+// Maximum timeout of the retry on the match (ms)
+const MAX_RETRY_TIMEOUT = 5000;
+
+/**
+ * Report of a healed element tool, merged into the tool result
+ */
+export interface HealingReport {
+  healed: true;
+  originalSelector: string;
+  usedSelector: string;
+  locator?: ElementLocator;
+  confidence: number;
+}
+
+/**
+ * Result of an element tool action run with healing
+ */
+export interface HealedAction<T> {
+  value: T;
+  healing?: HealingReport;
+}
+
+/**
+ * Element closest to a fingerprint, with the selector synthesized for it
+ */
+interface ClosestElement {
+  element: Locator;
+  confidence: number;
+  selector?: string;
+  locator?: ElementLocator;
+  code: string;
+}
+
+/**
+ * Key of the selector or locator of a target: the raw selector, or the
+ * locator code (the code generator keys healed selectors the same way)
+ */
+function getHealingKey(target: ElementTarget): string {
+  return target.locator
+    ? formatLocator("page", target.selector, target.locator)
+    : target.selector ?? "";
+}
+
+/**
+ * Fingerprint an element (runs in the browser, so it must be self-contained)
+ */
+function collectFingerprint(
+  node: Node,
+  getRole: AriaRoleFunction
+): ElementFingerprint {
+  const el = node as HTMLElement;
+  const rect = el.getBoundingClientRect();
+  const attributes: Record<string, string> = {};
+  for (const name of [
+    "id",
+    "name",
+    "type",
+    "class",
+    "placeholder",
+    "aria-label",
+    "href",
+    "data-testid",
+    "title",
+    "alt",
+  ]) {
+    const value = el.getAttribute(name);
+    if (value) {
+      attributes[name] = value;
+    }
+  }
+  const text = (el.innerText ?? el.textContent ?? "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return {
+    tag: el.tagName.toLowerCase(),
+    role: getRole(el),
+    text: text && text.length <= 100 ? text : undefined,
+    attributes,
+    x: rect.left + rect.width / 2,
+    y: rect.top + rect.height / 2,
+  };
+}
+
+/**
+ * Guess the fingerprint of the element a selector or locator was meant for
+ */
+function fingerprintFromTarget(target: ElementTarget): ElementFingerprint {
+  const attributes: Record<string, string> = {};
+  const fingerprint: ElementFingerprint = { attributes };
+  const { locator } = target;
+
+  if (target.selector) {
+    // Only the last compound selector describes the element itself
+    const selector = target.selector.trim();
+    const compound = selector.split(/\s*[>+~\s]\s*/).pop() ?? "";
+    const tag = compound.match(/^([a-z][a-z0-9-]*)/i);
+    const id = compound.match(/#([\w-]+)/);
+    const classes = Array.from(compound.matchAll(/\.([\w-]+)/g));
+    const text =
+      selector.match(/text=["']?([^"']+)["']?/) ??
+      selector.match(/:has-text\(["'](.+?)["']\)/);
+
+    if (tag) {
+      fingerprint.tag = tag[1].toLowerCase();
+    }
+    if (id) {
+      attributes.id = id[1];
+    }
+    if (classes.length) {
+      attributes.class = classes.map((match) => match[1]).join(" ");
+    }
+    for (const [, name, value] of Array.from(
+      compound.matchAll(/\[([\w-]+)\s*[*^$~|]?=\s*["']?([^"'\]]+)["']?\]/g)
+    )) {
+      attributes[name] = value;
+    }
+    if (text) {
+      fingerprint.text = text[1];
+    }
+  }
+
+  if (locator) {
+    fingerprint.role = locator.role;
+    fingerprint.text = locator.name ?? locator.text ?? locator.hasText;
+    if (locator.placeholder) {
+      attributes.placeholder = locator.placeholder;
+    }
+    if (locator.testId) {
+      attributes["data-testid"] = locator.testId;
+    }
+    if (locator.altText) {
+      attributes.alt = locator.altText;
+    }
+    if (locator.label) {
+      attributes["aria-label"] = locator.label;
+    }
+  }
+
+  return fingerprint;
+}
+
+/**
+ * Find the visible element of the document closest to a fingerprint (runs in
+ * the browser, see pageFunction.ts)
+ */
+function findClosestInDocument({
+  target,
+  getRole,
+}: {
+  target: ElementFingerprint;
+  getRole: AriaRoleFunction;
+}): { element: Element | null; confidence: number } {
+  const normalize = (text: string | null | undefined) =>
+    (text ?? "").replace(/\s+/g, " ").trim().toLowerCase();
+  const tokens = (text: string) => new Set(text.split(" ").filter(Boolean));
+  const similarity = (a?: string | null, b?: string | null): number => {
+    const left = normalize(a);
+    const right = normalize(b);
+    if (!left || !right) {
+      return 0;
+    }
+    if (left === right) {
+      return 1;
+    }
+    if (left.includes(right) || right.includes(left)) {
+      return 0.8;
+    }
+    const leftTokens = tokens(left);
+    const rightTokens = tokens(right);
+    const shared = Array.from(leftTokens).filter((token) =>
+      rightTokens.has(token)
+    ).length;
+    return shared / new Set([...leftTokens, ...rightTokens]).size;
+  };
+
+  // Every element of the document and of its open shadow roots
+  const elements: Element[] = [];
+  const collect = (root: Document | ShadowRoot) => {
+    for (const el of Array.from(root.querySelectorAll("*"))) {
+      elements.push(el);
+      if (el.shadowRoot) {
+        collect(el.shadowRoot);
+      }
+    }
+  };
+  collect(document);
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const el of elements) {
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+      continue;
+    }
+
+    const tag = el.tagName.toLowerCase();
+    let score = 0;
+    let weight = 0;
+
+    if (target.text) {
+      const text = el.textContent ?? "";
+      weight += 0.35;
+      score +=
+        0.35 *
+        (text.length <= 200
+          ? similarity(target.text, (el as HTMLElement).innerText ?? text)
+          : 0);
+    }
+    if (target.tag) {
+      weight += 0.15;
+      score += target.tag === tag ? 0.15 : 0;
+    }
+    if (target.role) {
+      weight += 0.15;
+      score += target.role === getRole(el) ? 0.15 : 0;
+    }
+
+    const names = Object.keys(target.attributes);
+    if (names.length) {
+      weight += 0.3;
+      const matches = names.reduce((total, name) => {
+        const value = el.getAttribute(name);
+        if (!value) {
+          return total;
+        }
+        if (name === "class") {
+          const expected = tokens(target.attributes.class);
+          const shared = value
+            .split(/\s+/)
+            .filter((token) => expected.has(token)).length;
+          return total + shared / expected.size;
+        }
+        return total + similarity(target.attributes[name], value);
+      }, 0);
+      score += (0.3 * matches) / names.length;
+    }
+
+    // The element that moved: the closer to where it was, the better
+    if (target.x !== undefined && target.y !== undefined) {
+      weight += 0.05;
+      const distance = Math.hypot(
+        rect.left + rect.width / 2 - target.x,
+        rect.top + rect.height / 2 - target.y
+      );
+      score += 0.05 * (1 - Math.min(distance / 500, 1));
+    }
+
+    // On ties, prefer the innermost element (later in document order)
+    const confidence = weight ? score / weight : 0;
+    if (confidence > 0 && confidence >= bestScore) {
+      best = el;
+      bestScore = confidence;
+    }
+  }
+
+  return { element: best, confidence: bestScore };
+}
+
+/**
+ * Find the visible element of a frame closest to a fingerprint
+ */
+async function findClosestElement(
+  frame: Frame,
+  fingerprint: ElementFingerprint
+): Promise<ClosestElement | undefined> {
+  const getAriaRole = await loadAriaRole(frame);
+  const find = await loadPageFunction(frame, findClosestInDocument);
+  const handle = await frame.evaluateHandle(({ find, ...args }) => find(args), {
+    find,
+    target: fingerprint,
+    getRole: getAriaRole,
+  });
+  await Promise.all([getAriaRole.dispose(), find.dispose()]);
+
+  const element = (await handle.getProperty("element")).asElement();
+  const confidence = (await (
+    await handle.getProperty("confidence")
+  ).jsonValue()) as number;
+  await handle.dispose();
+
+  if (!element || confidence < MIN_CONFIDENCE) {
+    await element?.dispose();
+    return undefined;
+  }
+
+  // Act on the match through a synthesized selector, as generated tests will
+  const synthesized = await synthesizeSelector(frame, element);
+  await element.dispose();
+
+  return {
+    element: resolveLocator(frame, synthesized.selector, synthesized.locator),
+    confidence,
+    selector: synthesized.selector,
+    locator: synthesized.locator,
+    code: synthesized.code,
+  };
+}
+
+/**
+ * Run the action of an element tool, retrying it on the closest match of
+ * the element when its selector times out because it no longer matches
+ * anything and self healing is enabled. The action gets the timeout to use:
+ * the target's, or a shorter one for the retry.
+ */
+export async function runWithHealing<T>(
+  toolContext: ToolContext,
+  session: BrowserSession,
+  target: ElementTarget,
+  resolved: ResolvedElement,
+  action: (element: Locator, timeout?: number) => Promise<T>
+): Promise<HealedAction<T>> {
+  // Refs target exactly one node and are not healed
+  if (!session.browserConfig?.selfHealing || target.ref) {
+    return { value: await action(resolved.element, target.timeout) };
+  }
+
+  // Remember the element while the selector still finds it
+  const key = getHealingKey(target);
+  const fingerprints = (session.elementFingerprints ??= new Map());
+  if ((await resolved.element.count()) === 1) {
+    const getAriaRole = await loadAriaRole(resolved.frame);
+    const fingerprint = await resolved.element
+      .evaluate(collectFingerprint, getAriaRole)
+      .catch(() => undefined);
+    await getAriaRole.dispose();
+    if (fingerprint) {
+      fingerprints.set(key, fingerprint);
+    }
+  }
+
+  try {
+    return { value: await action(resolved.element, target.timeout) };
+  } catch (error) {
+    if (!(error instanceof errors.TimeoutError)) {
+      throw error;
+    }
+
+    // An element that is still found timed out for another reason (covered,
+    // disabled, hidden): the closest match would be the element itself
+    const count = await resolved.element.count().catch(() => 0);
+    if (count > 0) {
+      throw error;
+    }
+
+    // A failed lookup (e.g. the page navigated) reports the timeout
+    const match = await findClosestElement(
+      resolved.frame,
+      fingerprints.get(key) ?? fingerprintFromTarget(target)
+    ).catch(() => undefined);
+    if (!match) {
+      throw error;
+    }
+
+    const { selector, locator } = match;
+    const value = await action(
+      match.element,
+      Math.min(target.timeout ?? MAX_RETRY_TIMEOUT, MAX_RETRY_TIMEOUT)
+    );
+
+    // Generated tests use the healed selector from now on
+    const codegenSessionId = getCodegenSessionId(toolContext);
+    if (codegenSessionId) {
+      playwrightGenerator.addHealedSelector(codegenSessionId, key, {
+        selector,
+        locator,
+      });
+    }
+
+    return {
+      value,
+      healing: {
+        healed: true,
+        originalSelector: key,
+        usedSelector: locator ? match.code : selector ?? match.code,
+        locator,
+        confidence: Math.round(match.confidence * 100) / 100,
+      },
+    };
+  }
+}
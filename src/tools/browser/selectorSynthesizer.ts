@@ -0,0 +1,326 @@
+/**
+ * @file Selector Synthesizer
+ * @description Builds robust, unique selectors for an element of the page
+ *
+ * Candidates are ranked by how stable they are across page changes:
+ * 1. the data-testid attribute
+ * 2. the ARIA role and accessible name
+ * 3. the text of the associated label
+ * 4. the text of the element
+ * 5. a short CSS path, skipping generated IDs and class names (CSS modules,
+ *    Tailwind utilities, ...)
+ * Roles come from ariaRole.ts, as for snapshots and healing. Every candidate
+ * is checked against the page: a candidate matching several elements is
+ * narrowed down with nth (and scored lower), and candidates that do not match
+ * the element are dropped. Selectors of several elements are synthesized
+ * together, checking each distinct candidate once.
+ */
+
+import { ElementHandle, Frame, Locator } from "playwright";
+import { ElementLocator } from "../common/types";
+import { AriaRoleFunction, loadAriaRole } from "./ariaRole";
+import { formatLocator, resolveLocator } from "./elementLocator";
+import { loadPageFunction } from "./pageFunction";
+
+/**
+ * Strategy used to build a selector candidate
+ */
+export type SelectorStrategy = "testId" | "role" | "label" | "text" | "css";
+
+/**
+ * Selector candidate for an element
+ */
+export interface SelectorCandidate {
+  strategy: SelectorStrategy;
+  selector?: string;
+  locator?: ElementLocator;
+  code: string;
+  unique: boolean;
+  stability: number;
+}
+
+/**
+ * Best selector of an element and its alternatives
+ */
+export interface SynthesizedSelector {
+  selector?: string;
+  locator?: ElementLocator;
+  code: string;
+  stability: number;
+  alternatives: SelectorCandidate[];
+}
+
+/**
+ * What the page knows about an element to build selector candidates
+ */
+interface ElementDescriptor {
+  testId?: string;
+  role?: string;
+  name?: string;
+  label?: string;
+  text?: string;
+  cssPath: string;
+}
+
+// Stability score of each strategy when its candidate is unique
+const STRATEGY_STABILITY: Record<SelectorStrategy, number> = {
+  testId: 1,
+  role: 0.9,
+  label: 0.8,
+  text: 0.6,
+  css: 0.4,
+};
+
+// Score factor of candidates that need nth to be unique
+const NTH_PENALTY = 0.5;
+
+/**
+ * Describe elements of the page (runs in the browser, see pageFunction.ts)
+ */
+function collectDescriptors({
+  nodes,
+  getRole,
+}: {
+  nodes: Node[];
+  getRole: AriaRoleFunction;
+}): ElementDescriptor[] {
+  const normalize = (text: string | null | undefined) =>
+    (text ?? "").replace(/\s+/g, " ").trim();
+
+  // Generated IDs and classes change between builds or renders
+  const isStableId = (id: string) =>
+    /^[A-Za-z][\w-]*$/.test(id) && !/\d{3,}/.test(id);
+  const isStableClass = (name: string) =>
+    /^[A-Za-z][A-Za-z-]{2,30}$/.test(name) &&
+    !/^(css|sc|jsx|emotion|svelte)-/.test(name) &&
+    !/^-?(p|m|px|py|pt|pb|pl|pr|mx|my|mt|mb|ml|mr|w|h|min|max|text|bg|flex|grid|gap|items|justify|self|rounded|border|shadow|font|leading|tracking|space|divide|ring|opacity|z|top|left|right|bottom|inset|col|row|order|overflow|cursor|transition|duration|ease|transform|scale|rotate|translate)-/.test(
+      name
+    );
+
+  return nodes.map((node) => {
+    const el = node as Element;
+    const role = getRole(el);
+
+    const labels =
+      el instanceof HTMLInputElement ||
+      el instanceof HTMLTextAreaElement ||
+      el instanceof HTMLSelectElement
+        ? Array.from(el.labels ?? [])
+        : [];
+    const label = normalize(labels.map((item) => item.textContent).join(" "));
+    const text = normalize((el as HTMLElement).innerText ?? el.textContent);
+    const name =
+      normalize(el.getAttribute("aria-label")) ||
+      label ||
+      (el instanceof HTMLImageElement ? normalize(el.alt) : "") ||
+      (el instanceof HTMLInputElement ? normalize(el.value) : "") ||
+      text;
+
+    // Short CSS path: walk up until the path is unique in its document or
+    // shadow root, stopping at elements with a stable ID
+    const root = el.getRootNode() as Document | ShadowRoot;
+    const segments: string[] = [];
+    for (
+      let current: Element | null = el;
+      current && segments.length < 5;
+      current = current.parentElement
+    ) {
+      const ancestor: Element = current;
+      const tagName = ancestor.tagName.toLowerCase();
+      if (ancestor.id && isStableId(ancestor.id)) {
+        segments.unshift(`${tagName}#${ancestor.id}`);
+        break;
+      }
+
+      const stableClass = Array.from(ancestor.classList).find(isStableClass);
+      let segment = stableClass ? `${tagName}.${stableClass}` : tagName;
+      const siblings = Array.from(ancestor.parentElement?.children ?? []);
+      if (siblings.filter((sibling) => sibling.matches(segment)).length > 1) {
+        const sameTag = siblings.filter(
+          (sibling) => sibling.tagName === ancestor.tagName
+        );
+        segment += `:nth-of-type(${sameTag.indexOf(ancestor) + 1})`;
+      }
+      segments.unshift(segment);
+
+      if (root.querySelectorAll(segments.join(" > ")).length === 1) {
+        break;
+      }
+    }
+
+    return {
+      testId: el.getAttribute("data-testid") ?? undefined,
+      role,
+      name: name.length <= 80 ? name : undefined,
+      label: label || undefined,
+      text: text && text.length <= 80 ? text : undefined,
+      cssPath: segments.join(" > "),
+    };
+  });
+}
+
+/**
+ * Build the selector candidates of an element, most stable first
+ */
+function buildCandidates(
+  descriptor: ElementDescriptor
+): Pick<SelectorCandidate, "strategy" | "selector" | "locator">[] {
+  const candidates: Pick<
+    SelectorCandidate,
+    "strategy" | "selector" | "locator"
+  >[] = [];
+
+  if (descriptor.testId) {
+    candidates.push({
+      strategy: "testId",
+      locator: { testId: descriptor.testId },
+    });
+  }
+  if (descriptor.role && descriptor.name) {
+    candidates.push({
+      strategy: "role",
+      locator: { role: descriptor.role, name: descriptor.name, exact: true },
+    });
+  }
+  if (descriptor.label) {
+    candidates.push({
+      strategy: "label",
+      locator: { label: descriptor.label, exact: true },
+    });
+  }
+  if (descriptor.text) {
+    candidates.push({
+      strategy: "text",
+      locator: { text: descriptor.text, exact: true },
+    });
+  }
+  candidates.push({ strategy: "css", selector: descriptor.cssPath });
+
+  return candidates;
+}
+
+/**
+ * Synthesize the best selector of an element and its alternatives
+ */
+export async function synthesizeSelector(
+  frame: Frame,
+  element: ElementHandle
+): Promise<SynthesizedSelector> {
+  const [synthesized] = await synthesizeSelectors(frame, [element]);
+  return synthesized;
+}
+
+/**
+ * Synthesize the best selectors of elements of a frame at once: the elements
+ * are described in one evaluation, and each distinct candidate is checked
+ * against the page once for all the elements it may match
+ */
+export async function synthesizeSelectors(
+  frame: Frame,
+  elements: ElementHandle[]
+): Promise<SynthesizedSelector[]> {
+  const getAriaRole = await loadAriaRole(frame);
+  const collect = await loadPageFunction(frame, collectDescriptors);
+  const descriptors = await frame.evaluate(
+    ({ collect, ...args }) => collect(args),
+    { collect, nodes: elements, getRole: getAriaRole }
+  );
+  await Promise.all([getAriaRole.dispose(), collect.dispose()]);
+
+  // Elements sharing a candidate (same text, same role and name, ...) are
+  // checked together
+  const checks = new Map<
+    string,
+    { matches: Locator; targets: ElementHandle[] }
+  >();
+  const candidatesOf = descriptors.map((descriptor, position) =>
+    buildCandidates(descriptor).map((candidate) => {
+      const key = candidate.locator
+        ? JSON.stringify(candidate.locator)
+        : `css=${candidate.selector}`;
+      let check = checks.get(key);
+      if (!check) {
+        check = {
+          matches: candidate.locator
+            ? resolveLocator(frame, undefined, candidate.locator)
+            : frame.locator(candidate.selector!),
+          targets: [],
+        };
+        checks.set(key, check);
+      }
+      check.targets.push(elements[position]);
+      return { ...candidate, key };
+    })
+  );
+
+  // Number of matches of each candidate, and where each element is in them
+  const results = new Map(
+    await Promise.all(
+      Array.from(checks, async ([key, { matches, targets }]) => {
+        const result = await matches
+          .evaluateAll(
+            (found, targets) => ({
+              count: found.length,
+              indexes: (targets as Element[]).map((target) =>
+                (found as Element[]).indexOf(target)
+              ),
+            }),
+            targets
+          )
+          .catch(() => ({
+            count: 0,
+            indexes: targets.map(() => -1),
+          }));
+        return [key, { ...result, targets }] as const;
+      })
+    )
+  );
+
+  return candidatesOf.map((candidates, position) => {
+    const synthesized: SelectorCandidate[] = [];
+    for (const candidate of candidates) {
+      const { count, indexes, targets } = results.get(candidate.key)!;
+      const index = indexes[targets.indexOf(elements[position])];
+
+      // The candidate does not match the element (e.g. a name computed
+      // differently than Playwright does)
+      if (index === -1) {
+        continue;
+      }
+
+      // Narrow down candidates matching several elements
+      const unique = count === 1;
+      const locator =
+        candidate.locator && !unique
+          ? { ...candidate.locator, nth: index }
+          : candidate.locator;
+      const selector =
+        candidate.selector && !unique
+          ? `:nth-match(${candidate.selector}, ${index + 1})`
+          : candidate.selector;
+      synthesized.push({
+        strategy: candidate.strategy,
+        selector,
+        locator,
+        code: formatLocator("page", selector, locator),
+        unique,
+        stability:
+          STRATEGY_STABILITY[candidate.strategy] * (unique ? 1 : NTH_PENALTY),
+      });
+    }
+
+    synthesized.sort((a, b) => b.stability - a.stability);
+    const [best, ...alternatives] = synthesized;
+    if (!best) {
+      throw new Error("Could not build a selector matching the element");
+    }
+
+    return {
+      selector: best.selector,
+      locator: best.locator,
+      code: best.code,
+      stability: best.stability,
+      alternatives,
+    };
+  });
+}
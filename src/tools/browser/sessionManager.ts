@@ -0,0 +1,175 @@
+/**
+ * @file Browser Session Manager
+ * @description Keeps one isolated browser session per conversation
+ *
+ * Each session owns its own browser, BrowserContext and tabs, so concurrent
+ * conversations on the VoltAgent server never share or clobber each other's
+ * browser state. Sessions are keyed by (in order of precedence):
+ * - context.browserSessionId or userContext "browserSessionId"
+ * - the conversation ID, then the user ID, of the operation's history entry
+ *   (sub-agents get the supervisor's conversation ID on handoff)
+ * - userContext "conversationId" or "userId" (the supervisor's userContext
+ *   is passed on to sub-agents on handoff)
+ * - a shared "default" session
+ *
+ * The session lock serializes browser initialization and context changes
+ * (launch, relaunch, context recreation, close), not whole tool calls: two
+ * tool calls of the same conversation running in parallel can still drive
+ * its page at the same time.
+ */
+
+import {
+  BrowserSession,
+  BrowserSessionInfo,
+  ToolContext,
+} from "../common/types";
+import { releaseBrowser } from "./browserConnection";
+
+/**
+ * Manages isolated browser sessions and serializes operations on each of them
+ */
+export class BrowserSessionManager {
+  // Session used when no conversation or user ID is available
+  static readonly DEFAULT_SESSION_ID = "default";
+
+  // userContext keys checked (in order) when the operation has no
+  // conversation or user ID
+  private static readonly USER_CONTEXT_KEYS = ["conversationId", "userId"];
+
+  // In-memory store for live sessions
+  private sessions: Map<string, BrowserSession> = new Map();
+
+  // Tail of the operation queue of each session
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * Resolve the browser session ID for a tool invocation
+   */
+  resolveSessionId(context: ToolContext): string {
+    const userContext = context.operationContext?.userContext;
+    const browserSessionId =
+      context.browserSessionId || userContext?.get("browserSessionId");
+    if (typeof browserSessionId === "string" && browserSessionId) {
+      return browserSessionId;
+    }
+
+    // VoltAgent only passes the conversation and user IDs to tools through
+    // the history entry of the operation
+    const historyEntry = context.operationContext?.historyEntry;
+    const operationSessionId =
+      historyEntry?.conversationId || historyEntry?.userId;
+    if (operationSessionId) {
+      return operationSessionId;
+    }
+
+    for (const key of BrowserSessionManager.USER_CONTEXT_KEYS) {
+      const value = userContext?.get(key);
+      if (typeof value === "string" && value) {
+        return value;
+      }
+    }
+
+    return BrowserSessionManager.DEFAULT_SESSION_ID;
+  }
+
+  /**
+   * Get the session for a tool invocation, creating it if needed
+   */
+  getOrCreateSession(context: ToolContext): BrowserSession {
+    const sessionId = this.resolveSessionId(context);
+    let session = this.sessions.get(sessionId);
+
+    if (!session) {
+      session = {
+        id: sessionId,
+        createdAt: Date.now(),
+        lastUsedAt: Date.now(),
+      };
+      this.sessions.set(sessionId, session);
+    }
+
+    session.lastUsedAt = Date.now();
+    return session;
+  }
+
+  /**
+   * Get a live session by ID
+   */
+  getSession(sessionId: string): BrowserSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Run an operation while holding the lock of a session.
+   * Operations on the same session run one at a time, in call order.
+   * Browser tools only hold it while the browser is initialized (see
+   * safeBrowserOperation), so their page actions are not serialized.
+   */
+  async runExclusive<T>(
+    sessionId: string,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    const previous = this.locks.get(sessionId) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(operation);
+    const tail = current.catch(() => undefined);
+    this.locks.set(sessionId, tail);
+
+    try {
+      return await current;
+    } finally {
+      // Drop the lock entry once nothing else is queued behind this operation
+      if (this.locks.get(sessionId) === tail) {
+        this.locks.delete(sessionId);
+      }
+    }
+  }
+
+  /**
+   * Close (or disconnect from) the browser of a session and remove the session
+   */
+  async closeSession(sessionId: string): Promise<boolean> {
+    return this.runExclusive(sessionId, async () => {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        return false;
+      }
+
+      this.sessions.delete(sessionId);
+      await releaseBrowser(session);
+      return true;
+    });
+  }
+
+  /**
+   * Close all sessions (e.g. on shutdown)
+   */
+  async closeAllSessions(): Promise<void> {
+    await Promise.all(
+      Array.from(this.sessions.keys()).map((sessionId) =>
+        this.closeSession(sessionId)
+      )
+    );
+  }
+
+  /**
+   * List all live sessions
+   */
+  listSessions(): BrowserSessionInfo[] {
+    return Array.from(this.sessions.values()).map((session) => ({
+      id: session.id,
+      engine: session.browserConfig?.engine,
+      connected: session.browser?.isConnected() ?? false,
+      tabCount: session.tabs?.size ?? 0,
+      activeTabId: session.activeTabId,
+      url:
+        session.page && !session.page.isClosed()
+          ? session.page.url()
+          : undefined,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastUsedAt: new Date(session.lastUsedAt).toISOString(),
+    }));
+  }
+}
+
+// Export a singleton instance shared by all browser tools
+export const browserSessions = new BrowserSessionManager();
@@ -0,0 +1,37 @@
+/**
+ * @file Browser Session Tools
+ * @description VoltAgent tools for inspecting the isolated per-conversation browser sessions
+ */
+
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { ToolContext } from "../common/types";
+import { browserSessions } from "./sessionManager";
+
+/**
+ * Tool for listing the live browser sessions
+ */
+export const listBrowserSessionsTool = createTool({
+  name: "listBrowserSessions",
+  description:
+    "List all live browser sessions (one per conversation) with their engine, tab count and current URL",
+  parameters: z.object({}),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+    const currentSessionId = browserSessions.resolveSessionId(toolContext);
+    const sessions = browserSessions.listSessions();
+
+    return {
+      result: `Found ${sessions.length} live browser session(s)`,
+      currentSessionId,
+      sessions,
+    };
+  },
+});
+
+/**
+ * Export all session tools as a group
+ */
+export const sessionTools = {
+  listBrowserSessionsTool,
+};
@@ -0,0 +1,219 @@
+/**
+ * @file Set-of-Marks
+ * @description Numbered overlay of the interactive elements of a page (set-of-marks prompting)
+ *
+ * For pages with poor semantics (canvas apps, div soup), the visible
+ * interactive elements are outlined with numbered boxes on a screenshot so a
+ * vision model can point at what it sees. Each marked element is tagged with
+ * a data-volt-mark attribute so that the mark tools act on exactly that node,
+ * and gets a robust selector (see selectorSynthesizer.ts) for code
+ * generation. Marks stay valid until the next marked screenshot.
+ */
+
+import { Frame, Page } from "playwright";
+import { BrowserState, ElementMark } from "../common/types";
+import { ResolvedElement } from "./elementResolver";
+import { getFrameSelectors, resolveFrame } from "./frameManager";
+import {
+  describeInteractiveElement,
+  findInteractiveElements,
+} from "./interactiveElements";
+import { synthesizeSelectors } from "./selectorSynthesizer";
+
+// Attribute tagging the elements of the last marked screenshot with their mark
+export const MARK_ATTRIBUTE = "data-volt-mark";
+
+// Attribute of the overlay drawing the marks
+const OVERLAY_ATTRIBUTE = "data-volt-marks";
+
+// Colors of the mark boxes, cycled so that neighbors are told apart
+const MARK_COLORS = [
+  "#e6194b",
+  "#3cb44b",
+  "#4363d8",
+  "#f58231",
+  "#911eb4",
+  "#008080",
+  "#9a6324",
+  "#800000",
+];
+
+/**
+ * Options of the marking of a frame
+ */
+export interface MarkOptions {
+  maxMarks?: number;
+  includeClickable?: boolean;
+}
+
+/**
+ * Element resolved from its mark
+ */
+export interface ResolvedMark extends ResolvedElement {
+  mark: ElementMark;
+}
+
+/**
+ * Mark the interactive elements of a frame in the viewport and draw the
+ * numbered overlay (remove it with removeMarkOverlay)
+ */
+export async function markElements(
+  frame: Frame,
+  options: MarkOptions = {}
+): Promise<ElementMark[]> {
+  // Clear the marks of the previous marked screenshot
+  await frame.evaluate((markAttribute) => {
+    // Including in shadow roots (with a stack: tsx wraps named functions in
+    // __name calls, which the page does not define)
+    const roots: (Document | ShadowRoot)[] = [document];
+    while (roots.length) {
+      roots
+        .pop()!
+        .querySelectorAll("*")
+        .forEach((el) => {
+          el.removeAttribute(markAttribute);
+          if (el.shadowRoot) {
+            roots.push(el.shadowRoot);
+          }
+        });
+    }
+  }, MARK_ATTRIBUTE);
+
+  // Boxes are reported in the viewport of the page, not of the frame
+  const frameBox = frame.parentFrame()
+    ? await (await frame.frameElement()).boundingBox()
+    : null;
+
+  const elements = await findInteractiveElements(frame, {
+    maxResults: options.maxMarks,
+    inViewport: true,
+    includeClickable: options.includeClickable,
+  });
+  const marks: ElementMark[] = [];
+  try {
+    // Marks fall back to their attribute when no selector can be built
+    const selectors = await synthesizeSelectors(frame, elements).catch(
+      () => []
+    );
+
+    for (const [index, element] of elements.entries()) {
+      const mark = index + 1;
+      await element.evaluate(
+        (node, { markAttribute, mark }) =>
+          (node as Element).setAttribute(markAttribute, String(mark)),
+        { markAttribute: MARK_ATTRIBUTE, mark }
+      );
+      const info = await describeInteractiveElement(element);
+      const synthesized = selectors[index];
+
+      marks.push({
+        mark,
+        type: info.type,
+        text: info.text,
+        box: {
+          x: Math.round(info.location.x + (frameBox?.x ?? 0)),
+          y: Math.round(info.location.y + (frameBox?.y ?? 0)),
+          width: Math.round(info.location.width),
+          height: Math.round(info.location.height),
+        },
+        selector: synthesized?.selector,
+        locator: synthesized?.locator,
+        code:
+          synthesized?.code ?? `page.locator('[${MARK_ATTRIBUTE}="${mark}"]')`,
+      });
+    }
+  } finally {
+    await Promise.all(elements.map((element) => element.dispose()));
+  }
+
+  await frame.evaluate(
+    ({ overlayAttribute, colors, boxes }) => {
+      const overlay = document.createElement("div");
+      overlay.setAttribute(overlayAttribute, "");
+      overlay.style.cssText =
+        "position:fixed;inset:0;pointer-events:none;z-index:2147483647";
+
+      for (const box of boxes) {
+        const color = colors[(box.mark - 1) % colors.length];
+        const outline = document.createElement("div");
+        outline.style.cssText = `position:absolute;left:${box.x}px;top:${box.y}px;width:${box.width}px;height:${box.height}px;border:2px solid ${color};box-sizing:border-box`;
+
+        // Label in the top left corner, inside the box at the top of the page
+        const label = document.createElement("span");
+        label.textContent = String(box.mark);
+        label.style.cssText = `position:absolute;left:-2px;${
+          box.y >= 16 ? "bottom:100%" : "top:0"
+        };background:${color};color:#fff;font:bold 12px/14px sans-serif;padding:0 3px`;
+
+        outline.appendChild(label);
+        overlay.appendChild(outline);
+      }
+      document.documentElement.appendChild(overlay);
+    },
+    {
+      overlayAttribute: OVERLAY_ATTRIBUTE,
+      colors: MARK_COLORS,
+      // Frame-relative boxes, as the overlay is drawn in the frame
+      boxes: marks.map((mark) => ({
+        mark: mark.mark,
+        x: mark.box.x - (frameBox?.x ?? 0),
+        y: mark.box.y - (frameBox?.y ?? 0),
+        width: mark.box.width,
+        height: mark.box.height,
+      })),
+    }
+  );
+
+  return marks;
+}
+
+/**
+ * Remove the numbered overlay of a frame (the marks stay on the elements)
+ */
+export async function removeMarkOverlay(frame: Frame): Promise<void> {
+  await frame.evaluate((overlayAttribute) => {
+    document
+      .querySelectorAll(`[${overlayAttribute}]`)
+      .forEach((overlay) => overlay.remove());
+  }, OVERLAY_ATTRIBUTE);
+}
+
+/**
+ * Resolve the element of a mark of the last marked screenshot
+ */
+export async function resolveMark(
+  page: Page,
+  state: BrowserState,
+  mark: number,
+  timeout?: number
+): Promise<ResolvedMark> {
+  const elementMark = state.elementMarks?.get(mark);
+  if (!elementMark) {
+    throw new Error(`Unknown mark ${mark}: take a markedScreenshot first`);
+  }
+  if (elementMark.tabId && elementMark.tabId !== state.activeTabId) {
+    throw new Error(
+      `Mark ${mark} belongs to tab ${elementMark.tabId}: switch to it or take a new markedScreenshot`
+    );
+  }
+
+  const frame = await resolveFrame(page, elementMark.frame, timeout);
+  const element = frame.locator(`[${MARK_ATTRIBUTE}="${mark}"]`);
+  if ((await element.count()) === 0) {
+    throw new Error(
+      `Mark ${mark} is no longer on the page: take a new markedScreenshot`
+    );
+  }
+
+  return {
+    frame,
+    element,
+    description: `mark ${mark} (${elementMark.type}${
+      elementMark.text ? ` "${elementMark.text}"` : ""
+    })`,
+    frameSelectors: elementMark.frame
+      ? await getFrameSelectors(frame)
+      : undefined,
+    mark: elementMark,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * @file Page Snapshot Tools
+ * @description VoltAgent tools for taking accessibility snapshots of the page
+ */
+
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { ToolContext } from "../common/types";
+import { safeBrowserOperation } from "./browserBaseTools";
+import { frameParameter, resolveFrame } from "./frameManager";
+import { takePageSnapshot } from "./pageSnapshot";
+
+/**
+ * Tool for taking an accessibility snapshot of the page with element refs
+ */
+export const pageSnapshotTool = createTool({
+  name: "pageSnapshot",
+  description:
+    "Get a compact accessibility tree of the page (role, name, state, value). Each element has a ref (e.g. e42) to pass to the element tools instead of a selector",
+  parameters: z.object({
+    frame: frameParameter,
+    interactiveOnly: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Only list interactive elements (buttons, links, inputs...)"),
+    maxElements: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .default(500)
+      .describe("Maximum number of elements to list"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const frame = await resolveFrame(page, args.frame);
+      const snapshot = await takePageSnapshot(frame, {
+        interactiveOnly: args.interactiveOnly,
+        maxElements: args.maxElements,
+      });
+
+      // The refs of the previous snapshot are no longer valid
+      session.elementRefs = new Map(
+        snapshot.refs.map((ref) => [
+          ref.ref,
+          { ...ref, tabId: session.activeTabId, frame: args.frame },
+        ])
+      );
+
+      return {
+        result: `Captured ${snapshot.refs.length} element(s)${
+          snapshot.truncated ? ` (truncated at ${args.maxElements})` : ""
+        }`,
+        url: page.url(),
+        title: await page.title(),
+        snapshot: snapshot.snapshot,
+        truncated: snapshot.truncated,
+      };
+    });
+  },
+});
+
+/**
+ * Export all page snapshot tools as a group
+ */
+export const snapshotTools = {
+  pageSnapshotTool,
+};
@@ -0,0 +1,56 @@
+/**
+ * @file Storage State Profiles
+ * @description Resolves named storage state profiles (cookies + localStorage) on disk
+ *
+ * Profiles are stored as Playwright storage state JSON files in STORAGE_STATE_DIR
+ * (defaults to ./.auth), one file per profile: <dir>/<profile>.json
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+// Default directory for storing profiles
+const DEFAULT_STORAGE_STATE_DIR = ".auth";
+
+/**
+ * Get the directory where storage state profiles are stored
+ */
+export function getStorageStateDir(): string {
+  return path.resolve(
+    process.env.STORAGE_STATE_DIR || DEFAULT_STORAGE_STATE_DIR
+  );
+}
+
+/**
+ * Get the file path of a storage state profile
+ */
+export function getStorageStatePath(profile: string): string {
+  if (!/^[\w.-]+$/.test(profile)) {
+    throw new Error(
+      `Invalid profile name: ${profile}. Use letters, numbers, dots, dashes and underscores only.`
+    );
+  }
+  return path.join(getStorageStateDir(), `${profile}.json`);
+}
+
+/**
+ * Check whether a storage state profile exists
+ */
+export function storageProfileExists(profile: string): boolean {
+  return fs.existsSync(getStorageStatePath(profile));
+}
+
+/**
+ * List all saved storage state profiles
+ */
+export function listStorageProfiles(): string[] {
+  const dir = getStorageStateDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => file.replace(/\.json$/, ""));
+}
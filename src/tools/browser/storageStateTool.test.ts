@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { ToolExecuteOptions } from "@voltagent/core";
+import { openFakeSession } from "../../test/fakeBrowser";
+import { loadStorageStateTool } from "./storageStateTool";
+
+describe("storageStateTool", () => {
+  it("loads a profile into a new context and reopens the current page", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-state-"));
+    const profilePath = path.join(dir, "admin.json");
+    fs.writeFileSync(profilePath, JSON.stringify({ cookies: [], origins: [] }));
+    process.env.STORAGE_STATE_DIR = dir;
+
+    const { toolContext, session, browser } = await openFakeSession(
+      "storage-state"
+    );
+    const previousContext = browser.openedContexts.at(-1)!;
+    await session.page!.goto("https://example.com/account");
+
+    const result = (await loadStorageStateTool.execute(
+      { profile: "admin" },
+      toolContext as ToolExecuteOptions
+    )) as { url: string };
+
+    assert.ok(previousContext.closed);
+    assert.equal(
+      browser.openedContexts.at(-1)!.options.storageState,
+      profilePath
+    );
+    assert.equal(result.url, "https://example.com/account");
+    assert.equal(session.storageStateProfile, "admin");
+    assert.equal(session.activeTabId, "tab-1");
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @file Browser Storage State Tools
+ * @description Tools for saving and restoring authenticated state (cookies + localStorage)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { ToolContext } from "../common/types";
+import { safeBrowserOperation } from "./browserBaseTools";
+import {
+  describeDroppedRoutes,
+  getBrowserSession,
+  recreateBrowserContext,
+} from "./playwrightToolHandler";
+import {
+  getStorageStatePath,
+  listStorageProfiles,
+  storageProfileExists,
+} from "./storageProfiles";
+
+/**
+ * Tool for saving the storage state of the browser context to a named profile
+ */
+export const saveStorageStateTool = createTool({
+  name: "saveStorageState",
+  description:
+    "Save the cookies and localStorage of the browser (e.g. after logging in) to a named profile on disk",
+  parameters: z.object({
+    profile: z
+      .string()
+      .describe("Name of the profile to save (e.g. 'admin', 'internal-app')"),
+    overwrite: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Whether to overwrite an existing profile"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page) => {
+      const filePath = getStorageStatePath(args.profile);
+      if (!args.overwrite && fs.existsSync(filePath)) {
+        throw new Error(
+          `Profile already exists: ${args.profile}. Set overwrite to true to replace it.`
+        );
+      }
+
+      // Create directory if it doesn't exist
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+      const state = await page.context().storageState({ path: filePath });
+
+      return {
+        result: `Saved storage state to profile "${args.profile}"`,
+        profile: args.profile,
+        path: filePath,
+        cookieCount: state.cookies.length,
+        origins: state.origins.map((origin) => origin.origin),
+      };
+    });
+  },
+});
+
+/**
+ * Tool for restoring the storage state of a named profile
+ */
+export const loadStorageStateTool = createTool({
+  name: "loadStorageState",
+  description:
+    "Restore cookies and localStorage from a saved profile. The browser context is recreated signed in and the current page is reopened.",
+  parameters: z.object({
+    profile: z.string().describe("Name of the profile to load"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    try {
+      if (!storageProfileExists(args.profile)) {
+        const profiles = listStorageProfiles();
+        throw new Error(
+          `Profile not found: ${args.profile}. Available profiles: ${
+            profiles.length ? profiles.join(", ") : "none"
+          }`
+        );
+      }
+
+      const filePath = getStorageStatePath(args.profile);
+      getBrowserSession(toolContext).storageStateProfile = args.profile;
+      const { page, droppedRoutes } = await recreateBrowserContext(
+        toolContext,
+        { storageState: filePath }
+      );
+
+      return {
+        result: `Loaded storage state from profile "${
+          args.profile
+        }"${describeDroppedRoutes(droppedRoutes)}`,
+        profile: args.profile,
+        path: filePath,
+        url: page.url(),
+        droppedRoutes: droppedRoutes.length ? droppedRoutes : undefined,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to load storage state: ${(error as Error).message}`
+      );
+    }
+  },
+});
+
+/**
+ * Export all storage state tools as a group
+ */
+export const storageStateTools = {
+  saveStorageStateTool,
+  loadStorageStateTool,
+};
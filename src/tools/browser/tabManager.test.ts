@@ -0,0 +1,67 @@
+import { EventEmitter } from "node:events";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BrowserContext, Page } from "playwright";
+import { BrowserState } from "../common/types";
+import { registerTab, resetTabs, trackTabs } from "./tabManager";
+
+/**
+ * Page that only emits events
+ */
+function createFakePage(): Page {
+  return new EventEmitter() as unknown as Page;
+}
+
+/**
+ * Browser context with the given pages, that only emits events
+ */
+function createFakeContext(pages: Page[]): BrowserContext {
+  return Object.assign(new EventEmitter(), {
+    pages: () => pages,
+  }) as unknown as BrowserContext;
+}
+
+/**
+ * Make a context the context of the state, as setupSessionContext does
+ */
+function openContext(state: BrowserState, browserContext: BrowserContext) {
+  resetTabs(state);
+  trackTabs(state, browserContext);
+  state.page = browserContext.pages()[0];
+  state.activeTabId = registerTab(state, state.page);
+}
+
+describe("tabManager", () => {
+  it("keeps the tab of a new context when the old context is closed", () => {
+    const state: BrowserState = {};
+    const oldPage = createFakePage();
+    openContext(state, createFakeContext([oldPage]));
+
+    // Recreate the context, then close the old one
+    const newPage = createFakePage();
+    openContext(state, createFakeContext([newPage]));
+    (oldPage as unknown as EventEmitter).emit("close");
+
+    assert.equal(state.activeTabId, "tab-1");
+    assert.equal(state.page, newPage);
+    assert.equal(state.tabs?.get("tab-1"), newPage);
+    assert.equal(state.tabs?.size, 1);
+  });
+
+  it("selects the last remaining tab when the active tab is closed", () => {
+    const state: BrowserState = {};
+    const firstPage = createFakePage();
+    const browserContext = createFakeContext([firstPage]);
+    openContext(state, browserContext);
+
+    const popup = createFakePage();
+    (browserContext as unknown as EventEmitter).emit("page", popup);
+    state.activeTabId = "tab-2";
+    state.page = popup;
+    (popup as unknown as EventEmitter).emit("close");
+
+    assert.equal(state.activeTabId, "tab-1");
+    assert.equal(state.page, firstPage);
+    assert.equal(state.tabs?.size, 1);
+  });
+});
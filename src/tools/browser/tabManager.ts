@@ -0,0 +1,137 @@
+/**
+ * @file Browser Tab Management
+ * @description Tracks the tabs (pages) of the browser context and the currently selected tab
+ *
+ * Every page opened in the browser context (new tabs, window.open popups,
+ * target="_blank" links) is registered with a stable ID such as "tab-2".
+ * The selected tab is kept in the session page so that all tools going through
+ * safeBrowserOperation act on it.
+ */
+
+import { BrowserContext, Page } from "playwright";
+import { BrowserState, TabInfo } from "../common/types";
+
+/**
+ * Register a page as a tab and return its ID (idempotent)
+ */
+export function registerTab(state: BrowserState, page: Page): string {
+  if (!state.tabs) {
+    state.tabs = new Map();
+  }
+
+  const existingId = findTabId(state, page);
+  if (existingId) {
+    return existingId;
+  }
+
+  state.nextTabNumber = (state.nextTabNumber ?? 0) + 1;
+  const tabId = `tab-${state.nextTabNumber}`;
+  state.tabs.set(tabId, page);
+
+  page.on("close", () => {
+    // Tab IDs start over with each context: once the context is recreated,
+    // the ID may belong to a page of the new context
+    if (state.tabs?.get(tabId) !== page) {
+      return;
+    }
+
+    state.tabs.delete(tabId);
+    if (state.activeTabId === tabId) {
+      const remaining = Array.from(state.tabs?.keys() ?? []);
+      const fallbackId = remaining[remaining.length - 1];
+      state.activeTabId = fallbackId;
+      state.page = fallbackId ? state.tabs?.get(fallbackId) : undefined;
+    }
+  });
+
+  if (!state.activeTabId) {
+    state.activeTabId = tabId;
+  }
+
+  return tabId;
+}
+
+/**
+ * Register all existing and future pages of a browser context as tabs
+ */
+export function trackTabs(
+  state: BrowserState,
+  browserContext: BrowserContext
+): void {
+  browserContext.pages().forEach((page) => registerTab(state, page));
+  browserContext.on("page", (page) => {
+    registerTab(state, page);
+  });
+}
+
+/**
+ * Find the tab ID of a page
+ */
+export function findTabId(state: BrowserState, page: Page): string | undefined {
+  for (const [tabId, tabPage] of state.tabs ?? []) {
+    if (tabPage === page) {
+      return tabId;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Make a tab the currently selected tab
+ */
+export async function selectTab(
+  state: BrowserState,
+  tabId: string
+): Promise<Page> {
+  const page = state.tabs?.get(tabId);
+  if (!page || page.isClosed()) {
+    throw new Error(`No open tab found with ID: ${tabId}`);
+  }
+
+  state.activeTabId = tabId;
+  state.page = page;
+  await page.bringToFront();
+  return page;
+}
+
+/**
+ * Describe a single tab
+ */
+export async function describeTab(
+  state: BrowserState,
+  tabId: string
+): Promise<TabInfo> {
+  const tabIds = Array.from(state.tabs?.keys() ?? []);
+  const page = state.tabs?.get(tabId);
+  if (!page) {
+    throw new Error(`No open tab found with ID: ${tabId}`);
+  }
+
+  return {
+    id: tabId,
+    index: tabIds.indexOf(tabId),
+    url: page.url(),
+    title: await page.title().catch(() => ""),
+    active: state.activeTabId === tabId,
+  };
+}
+
+/**
+ * Describe all open tabs in creation order
+ */
+export async function listTabs(state: BrowserState): Promise<TabInfo[]> {
+  return Promise.all(
+    Array.from(state.tabs?.keys() ?? []).map((tabId) =>
+      describeTab(state, tabId)
+    )
+  );
+}
+
+/**
+ * Forget all tracked tabs
+ */
+export function resetTabs(state: BrowserState): void {
+  state.tabs = undefined;
+  state.activeTabId = undefined;
+  state.nextTabNumber = undefined;
+}
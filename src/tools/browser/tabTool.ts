@@ -0,0 +1,198 @@
+/**
+ * @file Browser Tab Tools
+ * @description VoltAgent tools for managing tabs and popups
+ */
+
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { ToolContext } from "../common/types";
+import { safeBrowserOperation } from "./browserBaseTools";
+import { describeTab, listTabs, registerTab, selectTab } from "./tabManager";
+
+/**
+ * Tool for listing all open tabs
+ */
+export const listTabsTool = createTool({
+  name: "listTabs",
+  description: "List all open browser tabs with their ID, URL and title",
+  parameters: z.object({}),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (_page, session) => {
+      const tabs = await listTabs(session);
+
+      return {
+        result: `Found ${tabs.length} open tab(s)`,
+        tabs,
+      };
+    });
+  },
+});
+
+/**
+ * Tool for opening a new tab
+ */
+export const newTabTool = createTool({
+  name: "newTab",
+  description: "Open a new browser tab and make it the current tab",
+  parameters: z.object({
+    url: z
+      .string()
+      .url({ message: "Please provide a valid URL" })
+      .optional()
+      .describe("Optional URL to open in the new tab"),
+    timeout: z
+      .number()
+      .positive()
+      .optional()
+      .default(30000)
+      .describe("Timeout in milliseconds"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      const newPage = await page.context().newPage();
+      const tabId = registerTab(session, newPage);
+      await selectTab(session, tabId);
+
+      if (args.url) {
+        await newPage.goto(args.url, { timeout: args.timeout });
+      }
+
+      return {
+        result: `Opened new tab ${tabId}${args.url ? ` at ${args.url}` : ""}`,
+        tab: await describeTab(session, tabId),
+      };
+    });
+  },
+});
+
+/**
+ * Tool for switching the current tab
+ */
+export const switchTabTool = createTool({
+  name: "switchTab",
+  description:
+    "Switch to another open tab. All subsequent browser tools act on this tab.",
+  parameters: z.object({
+    tabId: z.string().describe("ID of the tab to switch to (see listTabs)"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (_page, session) => {
+      await selectTab(session, args.tabId);
+
+      return {
+        result: `Switched to tab ${args.tabId}`,
+        tab: await describeTab(session, args.tabId),
+      };
+    });
+  },
+});
+
+/**
+ * Tool for closing a tab
+ */
+export const closeTabTool = createTool({
+  name: "closeTab",
+  description:
+    "Close a tab (defaults to the current tab). If the current tab is closed, the most recently opened remaining tab becomes current.",
+  parameters: z.object({
+    tabId: z
+      .string()
+      .optional()
+      .describe("ID of the tab to close (defaults to the current tab)"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (_page, session) => {
+      const tabId = args.tabId ?? session.activeTabId;
+      const tabPage = tabId ? session.tabs?.get(tabId) : undefined;
+      if (!tabId || !tabPage) {
+        throw new Error(`No open tab found with ID: ${args.tabId}`);
+      }
+
+      // The video of the tab is complete once it is closed
+      const video = tabPage.video();
+      await tabPage.close();
+
+      const activeTab = session.activeTabId
+        ? await describeTab(session, session.activeTabId)
+        : undefined;
+
+      return {
+        result: `Closed tab ${tabId}`,
+        closedTabId: tabId,
+        activeTab,
+        videoPath: await video?.path(),
+      };
+    });
+  },
+});
+
+/**
+ * Tool for waiting for a popup or new tab to open
+ */
+export const waitForPopupTool = createTool({
+  name: "waitForPopup",
+  description:
+    "Wait for a popup or new tab to open (e.g. window.open, target=_blank links, OAuth logins), optionally clicking an element to trigger it",
+  parameters: z.object({
+    triggerSelector: z
+      .string()
+      .optional()
+      .describe("Optional selector of an element to click to open the popup"),
+    switchTo: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Make the popup the current tab"),
+    timeout: z
+      .number()
+      .positive()
+      .optional()
+      .default(30000)
+      .describe("Timeout in milliseconds"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    return safeBrowserOperation(toolContext, async (page, session) => {
+      // Wait and click together so that a failed click does not leave the
+      // wait rejecting unobserved
+      const [popup] = await Promise.all([
+        page.context().waitForEvent("page", { timeout: args.timeout }),
+        args.triggerSelector &&
+          page.click(args.triggerSelector, { timeout: args.timeout }),
+      ]);
+      await popup.waitForLoadState("domcontentloaded", {
+        timeout: args.timeout,
+      });
+
+      const tabId = registerTab(session, popup);
+      if (args.switchTo) {
+        await selectTab(session, tabId);
+      }
+
+      return {
+        result: `Popup opened in tab ${tabId}`,
+        tab: await describeTab(session, tabId),
+      };
+    });
+  },
+});
+
+/**
+ * Export all tab tools as a group
+ */
+export const tabTools = {
+  listTabsTool,
+  newTabTool,
+  switchTabTool,
+  closeTabTool,
+  waitForPopupTool,
+};
@@ -0,0 +1,187 @@
+/**
+ * @file Tool Result Images
+ * @description Passes the images returned by tools to vision models as image content parts
+ *
+ * Tools such as screenshot return their image as { image: { type: "image",
+ * data, mimeType } } in their result. VoltAgent passes tool results to the
+ * model as JSON, so withToolResultImages wraps the model to move these images
+ * out of the JSON: into image parts of the tool results (for providers that
+ * support images in tool results, e.g. Anthropic) or into a user message
+ * following them (for vision models that only take images from the user,
+ * e.g. OpenAI). Either way the base64 data never reaches the model as text,
+ * and only the most recent images are kept to bound the prompt size.
+ *
+ * The placement is chosen from the provider and model ID: models that do not
+ * take images (or unknown ones) get a "not available" marker instead, so that
+ * they are not told about an image they never receive.
+ */
+
+import type {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1Message,
+  LanguageModelV1Prompt,
+  LanguageModelV1ToolResultPart,
+} from "@ai-sdk/provider";
+import { ToolImage } from "../common/types";
+
+// Number of tool result images kept in the prompt by default
+const DEFAULT_MAX_IMAGES = 3;
+
+/**
+ * Where the images go: in the tool results, in a user message after them, or
+ * nowhere (for models that do not take images)
+ */
+export type ImagePlacement = "tool-result" | "user-message" | "none";
+
+/**
+ * Options of withToolResultImages
+ */
+export interface ToolResultImagesOptions {
+  // Defaults to the placement supported by the model (see getImagePlacement)
+  placement?: ImagePlacement;
+  // Number of the most recent images kept, older ones being left out
+  maxImages?: number;
+}
+
+// Vision models of each provider and where the provider accepts images (the
+// Mistral, OpenAI, Google and Groq adapters drop images of tool results)
+const VISION_MODELS: Record<
+  string,
+  { placement: ImagePlacement; models: RegExp }
+> = {
+  anthropic: { placement: "tool-result", models: /^claude-(?!2|instant)/ },
+  openai: {
+    placement: "user-message",
+    models:
+      /^(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o1(?!-mini)|o3(?!-mini)|o4)/,
+  },
+  mistral: {
+    placement: "user-message",
+    models: /^(pixtral|mistral-medium|mistral-small-(latest|25))/,
+  },
+  google: { placement: "user-message", models: /^gemini/ },
+  groq: { placement: "user-message", models: /(vision|llama-4)/ },
+};
+
+/**
+ * Get where a model takes images, from its provider and model ID
+ */
+export function getImagePlacement(model: LanguageModelV1): ImagePlacement {
+  // Provider IDs look like "mistral.chat" or "anthropic.messages"
+  const vision = VISION_MODELS[model.provider.split(".")[0]];
+  return vision?.models.test(model.modelId) ? vision.placement : "none";
+}
+
+/**
+ * Get the image of a tool result, if any
+ */
+function getToolImage(result: unknown): ToolImage | undefined {
+  const image = (result as { image?: ToolImage } | null | undefined)?.image;
+  return image?.type === "image" && typeof image.data === "string"
+    ? image
+    : undefined;
+}
+
+/**
+ * Move the images of the tool results of a prompt into image content parts
+ */
+function attachToolResultImages(
+  prompt: LanguageModelV1Prompt,
+  options: Required<ToolResultImagesOptions>
+): LanguageModelV1Prompt {
+  const imageCount = prompt
+    .flatMap((message) => (message.role === "tool" ? message.content : []))
+    .filter((part) => getToolImage(part.result)).length;
+  let skipped = Math.max(imageCount - options.maxImages, 0);
+
+  return prompt.flatMap((message): LanguageModelV1Message[] => {
+    if (message.role !== "tool") {
+      return [message];
+    }
+
+    const images: ToolImage[] = [];
+    const content = message.content.map(
+      (part): LanguageModelV1ToolResultPart => {
+        const image = getToolImage(part.result);
+        if (!image) {
+          return part;
+        }
+
+        if (options.placement === "none") {
+          return {
+            ...part,
+            result: {
+              ...(part.result as Record<string, unknown>),
+              image: "[not available, the model does not take images]",
+            },
+          };
+        }
+
+        const attached = skipped-- <= 0;
+        const result = {
+          ...(part.result as Record<string, unknown>),
+          image: attached ? "[attached]" : "[omitted, too old]",
+        };
+        if (!attached) {
+          return { ...part, result };
+        }
+        if (options.placement === "user-message") {
+          images.push(image);
+          return { ...part, result };
+        }
+        return {
+          ...part,
+          result,
+          content: [
+            { type: "text", text: JSON.stringify(result) },
+            { type: "image", data: image.data, mimeType: image.mimeType },
+          ],
+        };
+      }
+    );
+
+    const toolMessage = { ...message, content };
+    if (images.length === 0) {
+      return [toolMessage];
+    }
+    return [
+      toolMessage,
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Images returned by the tool calls above:" },
+          ...images.map((image) => ({
+            type: "image" as const,
+            image: Buffer.from(image.data, "base64"),
+            mimeType: image.mimeType,
+          })),
+        ],
+      },
+    ];
+  });
+}
+
+/**
+ * Wrap a model so that it sees the images returned by tools
+ */
+export function withToolResultImages<MODEL extends LanguageModelV1>(
+  model: MODEL,
+  options: ToolResultImagesOptions = {}
+): MODEL {
+  const resolved: Required<ToolResultImagesOptions> = {
+    placement: options.placement ?? getImagePlacement(model),
+    maxImages: options.maxImages ?? DEFAULT_MAX_IMAGES,
+  };
+  const withImages = (callOptions: LanguageModelV1CallOptions) => ({
+    ...callOptions,
+    prompt: attachToolResultImages(callOptions.prompt, resolved),
+  });
+
+  // Inherit everything else (provider, modelId, settings) from the model
+  const wrapped: MODEL = Object.create(model);
+  wrapped.doGenerate = (callOptions) =>
+    model.doGenerate(withImages(callOptions));
+  wrapped.doStream = (callOptions) => model.doStream(withImages(callOptions));
+  return wrapped;
+}
@@ -0,0 +1,110 @@
+/**
+ * @file Trace Recorder
+ * @description Starts, saves and stops Playwright tracing of a browser session
+ *
+ * Traces are saved as trace.zip files in TRACE_DIR (defaults to ./traces) and can
+ * be opened with `npx playwright show-trace <file>`. Saved files are kept in the
+ * session so they can be linked into codegen sessions.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  BrowserSession,
+  BrowserState,
+  TraceFile,
+  TraceRecording,
+} from "../common/types";
+
+// Default directory for trace files
+const DEFAULT_TRACE_DIR = "traces";
+
+/**
+ * Get a new trace file path
+ */
+export function getTracePath(prefix: string): string {
+  const dir = path.resolve(process.env.TRACE_DIR || DEFAULT_TRACE_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+  return path.join(dir, `${prefix}-${Date.now()}.zip`);
+}
+
+/**
+ * Start tracing the browser context of a session.
+ * Pass startedAt to continue a trace of a previous context.
+ */
+export async function startTrace(
+  state: BrowserState,
+  options: Omit<TraceRecording, "startedAt"> & { startedAt?: number }
+): Promise<void> {
+  if (!state.browserContext) {
+    throw new Error("No browser context to trace");
+  }
+  if (state.tracing) {
+    throw new Error("Tracing is already in progress");
+  }
+
+  await state.browserContext.tracing.start({
+    name: options.title,
+    title: options.title,
+    screenshots: options.screenshots,
+    snapshots: options.snapshots,
+    sources: options.sources,
+  });
+  state.tracing = { ...options, startedAt: options.startedAt ?? Date.now() };
+}
+
+/**
+ * Record a saved trace file in the session
+ */
+function addTraceFile(
+  state: BrowserState,
+  filePath: string,
+  startedAt: number
+): TraceFile {
+  const traceFile = { path: filePath, startedAt, savedAt: Date.now() };
+  state.traces = [...(state.traces ?? []), traceFile];
+  return traceFile;
+}
+
+/**
+ * Stop tracing and save the trace file
+ */
+export async function stopTrace(
+  state: BrowserState,
+  filePath: string
+): Promise<TraceFile | undefined> {
+  const tracing = state.tracing;
+  if (!tracing || !state.browserContext) {
+    return undefined;
+  }
+
+  state.tracing = undefined;
+  await state.browserContext.tracing.stop({ path: filePath });
+  return addTraceFile(state, filePath, tracing.startedAt);
+}
+
+/**
+ * Save what was traced so far to a file and keep tracing
+ */
+export async function saveTraceChunk(
+  state: BrowserState,
+  filePath: string
+): Promise<TraceFile | undefined> {
+  const tracing = state.tracing;
+  if (!tracing || !state.browserContext) {
+    return undefined;
+  }
+
+  await state.browserContext.tracing.stopChunk({ path: filePath });
+  await state.browserContext.tracing.startChunk({ title: tracing.title });
+  return addTraceFile(state, filePath, tracing.startedAt);
+}
+
+/**
+ * Saves the trace of the session (if tracing) before its context or browser is closed
+ */
+export async function saveSessionTrace(session: BrowserSession): Promise<void> {
+  await stopTrace(session, getTracePath(session.id)).catch((error) => {
+    console.error(`Error while saving trace of session ${session.id}:`, error);
+  });
+}
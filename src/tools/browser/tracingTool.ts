@@ -0,0 +1,123 @@
+/**
+ * @file Browser Tracing Tools
+ * @description Tools for recording Playwright traces (trace.zip) of the browser
+ *
+ * A trace captures screenshots, DOM snapshots and the sources of every action,
+ * and can be inspected with `npx playwright show-trace <file>`. Set traceAll in
+ * the browser config (or BROWSER_TRACE=true) to trace every session automatically.
+ */
+
+import * as path from "path";
+import { z } from "zod";
+import { createTool } from "@voltagent/core";
+import { ToolContext } from "../common/types";
+import { browserSessions } from "./sessionManager";
+import { ensureBrowser, getBrowserSession } from "./playwrightToolHandler";
+import { getTracePath, startTrace, stopTrace } from "./traceRecorder";
+
+/**
+ * Tool for starting a trace
+ */
+export const startTracingTool = createTool({
+  name: "startTracing",
+  description:
+    "Start recording a Playwright trace (screenshots, DOM snapshots and sources) of the browser",
+  parameters: z.object({
+    title: z
+      .string()
+      .optional()
+      .describe("Title of the trace shown in the trace viewer"),
+    screenshots: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Capture screenshots during tracing"),
+    snapshots: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Capture DOM snapshots of every action"),
+    sources: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Include source files of the actions"),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    try {
+      const { session } = await ensureBrowser(toolContext);
+      await browserSessions.runExclusive(session.id, () =>
+        startTrace(session, {
+          title: args.title,
+          screenshots: args.screenshots,
+          snapshots: args.snapshots,
+          sources: args.sources,
+          auto: false,
+        })
+      );
+
+      return {
+        result: `Started tracing session ${session.id}`,
+      };
+    } catch (error) {
+      throw new Error(`Failed to start tracing: ${(error as Error).message}`);
+    }
+  },
+});
+
+/**
+ * Tool for stopping the trace
+ */
+export const stopTracingTool = createTool({
+  name: "stopTracing",
+  description: "Stop tracing and save the trace.zip file",
+  parameters: z.object({
+    path: z
+      .string()
+      .optional()
+      .describe(
+        "Path of the trace file (defaults to traces/<session>-<time>.zip)"
+      ),
+  }),
+  execute: async (args, context) => {
+    const toolContext = context as unknown as ToolContext;
+
+    try {
+      const session = getBrowserSession(toolContext);
+      const tracing = session.tracing;
+      if (!tracing) {
+        throw new Error("No trace in progress");
+      }
+
+      const tracePath = args.path
+        ? path.resolve(args.path)
+        : getTracePath(session.id);
+      const traceFile = await browserSessions.runExclusive(session.id, () =>
+        stopTrace(session, tracePath)
+      );
+
+      // Include parts saved earlier when the context was recreated
+      const parts = (session.traces ?? [])
+        .filter((trace) => trace.savedAt >= tracing.startedAt)
+        .map((trace) => trace.path);
+
+      return {
+        result: `Trace saved to ${tracePath}. Open it with: npx playwright show-trace ${tracePath}`,
+        path: traceFile?.path ?? tracePath,
+        parts,
+      };
+    } catch (error) {
+      throw new Error(`Failed to stop tracing: ${(error as Error).message}`);
+    }
+  },
+});
+
+/**
+ * Export all tracing tools as a group
+ */
+export const tracingTools = {
+  startTracingTool,
+  stopTracingTool,
+};
@@ -1,6 +1,8 @@
 /**
  * @file Browser User Agent Tools
- * @description Tools for managing browser user agent settings
+ * @description Tools for inspecting browser user agent settings
+ *
+ * Use the emulateDevice tool (emulationTool.ts) to change the user agent.
  */
 
 import { z } from "zod";
@@ -9,7 +11,7 @@ import { ToolContext } from "../common/types";
 import { ensureBrowser } from "./playwrightToolHandler";
 
 // Common user agent strings
-const COMMON_USER_AGENTS = {
+export const COMMON_USER_AGENTS = {
   chrome:
     "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
   edge: "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0",
@@ -24,54 +26,6 @@ const COMMON_USER_AGENTS = {
   bot: "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
 };
 
-/**
- * Tool for setting browser user agent
- */
-export const setUserAgentTool = createTool({
-  name: "setUserAgent",
-  description: "Set the browser's user agent string",
-  parameters: z.object({
-    userAgent: z.string().describe("User agent string to set"),
-    preset: z
-      .enum(Object.keys(COMMON_USER_AGENTS) as [string, ...string[]])
-      .optional()
-      .describe("Optional preset user agent (overrides userAgent if provided)"),
-  }),
-  execute: async (args, context) => {
-    const toolContext = context as unknown as ToolContext;
-
-    try {
-      // Need to reset context for user agent change
-      const { browser } = await ensureBrowser(toolContext);
-
-      // Determine user agent to use
-      const userAgent = args.preset
-        ? COMMON_USER_AGENTS[args.preset as keyof typeof COMMON_USER_AGENTS]
-        : args.userAgent;
-
-      // Create a new context with the user agent
-      const newContext = await browser.newContext({
-        userAgent,
-        viewport: { width: 1280, height: 720 },
-      });
-
-      // Create a new page in the context
-      const newPage = await newContext.newPage();
-
-      // Update context references
-      toolContext.browserContext = newContext;
-      toolContext.page = newPage;
-
-      return {
-        result: `Set user agent to: ${userAgent}`,
-        userAgent,
-      };
-    } catch (error) {
-      throw new Error(`Failed to set user agent: ${(error as Error).message}`);
-    }
-  },
-});
-
 /**
  * Tool for getting current user agent
  */
@@ -102,6 +56,5 @@ export const getUserAgentTool = createTool({
  * Export all user agent tools as a group
  */
 export const userAgentTools = {
-  setUserAgentTool,
   getUserAgentTool,
 };
@@ -0,0 +1,166 @@
+/**
+ * @file Video Recorder
+ * @description Records a video of every tab and a timeline of the tool calls
+ *
+ * With the recordVideo launch option, Playwright records a video (.webm) of
+ * every page of the browser context into VIDEO_DIR (defaults to ./videos).
+ * The start and end time of each tool call, relative to the start of the
+ * recording, is written to a sidecar JSON file next to the videos, so a
+ * reviewer can jump straight to the step in the video.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createHooks, OperationContext } from "@voltagent/core";
+import { BrowserContext, Page } from "playwright";
+import { BrowserState, VideoRecording } from "../common/types";
+import { browserSessions } from "./sessionManager";
+import { findTabId } from "./tabManager";
+
+// Default directory for videos and their sidecar files
+const DEFAULT_VIDEO_DIR = "videos";
+
+// Start times of the tool calls in progress per session
+const pendingSteps = new WeakMap<
+  BrowserState,
+  { tool: string; startedAt: number }[]
+>();
+
+/**
+ * Start a video recording for a session
+ */
+export function createVideoRecording(sessionId: string): VideoRecording {
+  const dir = path.resolve(process.env.VIDEO_DIR || DEFAULT_VIDEO_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+
+  const startedAt = Date.now();
+  return {
+    dir,
+    sidecarPath: path.join(dir, `${sessionId}-${startedAt}.steps.json`),
+    startedAt,
+    videos: [],
+    steps: [],
+  };
+}
+
+/**
+ * Write the sidecar JSON file of a recording
+ */
+function writeSidecar(recording: VideoRecording): void {
+  const sidecar = {
+    startedAt: new Date(recording.startedAt).toISOString(),
+    videos: recording.videos,
+    steps: recording.steps,
+  };
+
+  try {
+    fs.writeFileSync(recording.sidecarPath, JSON.stringify(sidecar, null, 2));
+  } catch (error) {
+    console.error("Failed to write video steps file:", error);
+  }
+}
+
+/**
+ * Add the video of a page to the recording
+ */
+async function addVideo(state: BrowserState, page: Page): Promise<void> {
+  const recording = state.videoRecording;
+  const video = page.video();
+  if (!recording || !video) {
+    return;
+  }
+
+  recording.videos.push({
+    tabId: findTabId(state, page),
+    path: await video.path(),
+    offsetMs: Date.now() - recording.startedAt,
+  });
+  writeSidecar(recording);
+}
+
+/**
+ * Add the videos of all existing and future pages of a browser context to the
+ * recording of the session. Must be attached after trackTabs.
+ */
+export function attachVideoRecorder(
+  state: BrowserState,
+  browserContext: BrowserContext
+): void {
+  const recordVideo = (page: Page) =>
+    addVideo(state, page).catch((error) => {
+      console.error("Failed to record video of page:", error);
+    });
+
+  browserContext.pages().forEach(recordVideo);
+  browserContext.on("page", recordVideo);
+}
+
+/**
+ * Remember the start time of a tool call
+ */
+export function recordToolStart(state: BrowserState, tool: string): void {
+  const steps = pendingSteps.get(state) ?? [];
+  steps.push({ tool, startedAt: Date.now() });
+  pendingSteps.set(state, steps);
+}
+
+/**
+ * Add a finished tool call to the recording of the session (if recording)
+ */
+export function recordToolEnd(
+  state: BrowserState,
+  tool: string,
+  error?: string
+): void {
+  const steps = pendingSteps.get(state) ?? [];
+  const index = steps.map((step) => step.tool).lastIndexOf(tool);
+  const pending = index >= 0 ? steps.splice(index, 1)[0] : undefined;
+
+  const recording = state.videoRecording;
+  if (!recording) {
+    return;
+  }
+
+  // Tool calls that launched the browser started before the recording
+  const endMs = Date.now() - recording.startedAt;
+  const startMs = Math.max(
+    0,
+    (pending?.startedAt ?? recording.startedAt) - recording.startedAt
+  );
+  recording.steps.push({
+    tool,
+    tabId: state.activeTabId,
+    startMs,
+    endMs,
+    durationMs: endMs - startMs,
+    error,
+  });
+  writeSidecar(recording);
+}
+
+/**
+ * Find the browser session of an agent operation (without creating one)
+ */
+function findSession(context: OperationContext): BrowserState | undefined {
+  return browserSessions.getSession(
+    browserSessions.resolveSessionId({ operationContext: context })
+  );
+}
+
+/**
+ * Agent hooks that time every tool call for the video recording of the session
+ */
+export const videoRecorderHooks = createHooks({
+  onToolStart: ({ tool, context }) => {
+    const session = findSession(context);
+    if (session) {
+      recordToolStart(session, tool.name);
+    }
+  },
+  onToolEnd: ({ tool, error, context }) => {
+    const session = findSession(context);
+    if (session) {
+      recordToolEnd(session, tool.name, error?.message);
+    }
+  },
+});
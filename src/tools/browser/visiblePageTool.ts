@@ -1,12 +1,26 @@
 /**
  * @file Browser Visible Page Tools
  * @description Tools for working with visible elements on the page
+ *
+ * The tools take an optional frame parameter to work inside an iframe
+ * (see frameManager.ts). listInteractiveElements returns ranked unique
+ * selectors for each element (see selectorSynthesizer.ts).
  */
 
 import { z } from "zod";
 import { createTool } from "@voltagent/core";
 import { ToolContext } from "../common/types";
 import { safeBrowserOperation } from "./browserBaseTools";
+import {
+  describeInteractiveElement,
+  findInteractiveElements,
+} from "./interactiveElements";
+import { synthesizeSelectors } from "./selectorSynthesizer";
+import {
+  frameParameter,
+  getFrameSelectors,
+  resolveFrame,
+} from "./frameManager";
 
 /**
  * Tool for getting all visible text on a page
@@ -20,12 +34,14 @@ export const getVisibleTextTool = createTool({
       .optional()
       .default([])
       .describe("Array of selectors to exclude from text extraction"),
+    frame: frameParameter,
   }),
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
     return safeBrowserOperation(toolContext, async (page) => {
-      const visibleText = await page.evaluate((excludeSelectors) => {
+      const frame = await resolveFrame(page, args.frame);
+      const visibleText = await frame.evaluate((excludeSelectors) => {
         // Helper to get all text nodes from an element
         function getTextNodes(element: Element): string[] {
           if (!element) return [];
@@ -71,6 +87,7 @@ export const getVisibleTextTool = createTool({
       return {
         result: `Extracted ${visibleText.length} characters of visible text`,
         text: visibleText,
+        frameSelectors: args.frame ? await getFrameSelectors(frame) : undefined,
       };
     });
   },
@@ -87,21 +104,23 @@ export const getVisibleHtmlTool = createTool({
       .string()
       .optional()
       .describe("Optional CSS selector to get HTML for a specific element"),
+    frame: frameParameter,
   }),
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
     return safeBrowserOperation(toolContext, async (page) => {
       try {
+        const frame = await resolveFrame(page, args.frame);
         let htmlContent;
 
         if (args.selector) {
           // Get HTML for specific element
-          await page.waitForSelector(args.selector);
-          htmlContent = await page.$eval(args.selector, (el) => el.outerHTML);
+          await frame.waitForSelector(args.selector);
+          htmlContent = await frame.$eval(args.selector, (el) => el.outerHTML);
         } else {
-          // Get HTML for entire page
-          htmlContent = await page.content();
+          // Get HTML for entire page (or frame)
+          htmlContent = await frame.content();
         }
 
         return {
@@ -109,6 +128,9 @@ export const getVisibleHtmlTool = createTool({
             args.selector ? ` for selector: ${args.selector}` : ""
           }`,
           html: htmlContent,
+          frameSelectors: args.frame
+            ? await getFrameSelectors(frame)
+            : undefined,
         };
       } catch (error) {
         throw new Error(
@@ -125,7 +147,7 @@ export const getVisibleHtmlTool = createTool({
 export const listInteractiveElementsTool = createTool({
   name: "listInteractiveElements",
   description:
-    "List all visible interactive elements (links, buttons, inputs) on the page",
+    "List all visible interactive elements (links, buttons, inputs) on the page, including those inside open shadow roots",
   parameters: z.object({
     includeDisabled: z
       .boolean()
@@ -138,85 +160,49 @@ export const listInteractiveElementsTool = createTool({
       .optional()
       .default(100)
       .describe("Maximum number of elements to return"),
+    frame: frameParameter,
   }),
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
 
     return safeBrowserOperation(toolContext, async (page) => {
-      const elements = await page.evaluate(
-        (options) => {
-          const { includeDisabled, maxResults } = options;
-
-          // Get all interactive elements
-          const interactiveSelectors = [
-            "a",
-            "button",
-            "input",
-            "select",
-            "textarea",
-            '[role="button"]',
-            '[role="link"]',
-            '[role="checkbox"]',
-            '[role="radio"]',
-            '[role="tab"]',
-            '[role="menuitem"]',
-          ];
-
-          const allElements = Array.from(
-            document.querySelectorAll(interactiveSelectors.join(","))
-          );
-
-          // Filter for visibility and enabled state
-          const visibleElements = allElements.filter((el) => {
-            // Check if visible
-            const style = window.getComputedStyle(el);
-            const isVisible =
-              style.display !== "none" &&
-              style.visibility !== "hidden" &&
-              style.opacity !== "0" &&
-              el.getBoundingClientRect().height > 0 &&
-              el.getBoundingClientRect().width > 0;
-
-            // Check if enabled
-            const isDisabled =
-              el.hasAttribute("disabled") ||
-              el.getAttribute("aria-disabled") === "true";
-
-            return isVisible && (includeDisabled || !isDisabled);
-          });
-
-          // Limit results
-          const limitedElements = visibleElements.slice(0, maxResults);
-
-          // Format results
-          return limitedElements.map((el) => {
-            const tagName = el.tagName.toLowerCase();
-            const id = el.id ? `#${el.id}` : "";
-            const classes = Array.from(el.classList)
-              .map((c) => `.${c}`)
-              .join("");
-            const text = (el.textContent || "").trim().substring(0, 50);
-            const selector = id || classes || tagName;
-
-            return {
-              type: tagName,
-              text: text,
-              selector: selector,
-              location: {
-                x: el.getBoundingClientRect().left,
-                y: el.getBoundingClientRect().top,
-                width: el.getBoundingClientRect().width,
-                height: el.getBoundingClientRect().height,
-              },
-            };
+      const frame = await resolveFrame(page, args.frame);
+      const handles = await findInteractiveElements(frame, {
+        includeDisabled: args.includeDisabled,
+        maxResults: args.maxResults,
+      });
+
+      // Format results
+      const elements = [];
+      try {
+        // Unique selectors ranked by stability (CSS selectors used by the
+        // tools pierce open shadow roots)
+        const selectors = await synthesizeSelectors(frame, handles);
+
+        for (const [position, element] of handles.entries()) {
+          const info = await describeInteractiveElement(element);
+          const synthesized = selectors[position];
+
+          elements.push({
+            ...info,
+            selector:
+              synthesized.selector ??
+              synthesized.alternatives.find((candidate) => candidate.selector)
+                ?.selector,
+            locator: synthesized.locator,
+            code: synthesized.code,
+            stability: synthesized.stability,
+            alternatives: synthesized.alternatives,
           });
-        },
-        { includeDisabled: args.includeDisabled, maxResults: args.maxResults }
-      );
+        }
+      } finally {
+        await Promise.all(handles.map((element) => element.dispose()));
+      }
 
       return {
         result: `Found ${elements.length} interactive elements on the page`,
         elements: elements,
+        frameSelectors: args.frame ? await getFrameSelectors(frame) : undefined,
       };
     });
   },
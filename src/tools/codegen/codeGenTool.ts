@@ -1,8 +1,48 @@
+import * as path from "path";
+import { isDeepStrictEqual } from "util";
 import { z } from "zod";
 import { createTool } from "@voltagent/core";
 import { ToolContext } from "../common/types";
+import {
+  browserSessions,
+  getBrowserSession,
+  getStorageStatePath,
+  getStorageStateProfile,
+  getTracePath,
+  loadBrowserConfig,
+  saveTraceChunk,
+} from "../browser";
 import { playwrightGenerator } from "./generator";
-import { CodegenOptions } from "./types";
+import { getCodegenSessionId, setCodegenSessionId } from "./codegenRecorder";
+import { CodegenOptions, CodegenSession } from "./types";
+
+/**
+ * Link the trace files recorded by the browser session while the codegen
+ * session was active, saving the trace in progress (if any) first
+ */
+async function linkTraces(
+  session: CodegenSession,
+  toolContext: ToolContext
+): Promise<void> {
+  const browserSession = getBrowserSession(toolContext);
+
+  if (browserSession.tracing) {
+    await browserSessions
+      .runExclusive(browserSession.id, () =>
+        saveTraceChunk(browserSession, getTracePath(browserSession.id))
+      )
+      .catch((error) => {
+        console.error("Failed to save trace for codegen session:", error);
+      });
+  }
+
+  const traces = (browserSession.traces ?? [])
+    .filter((trace) => trace.savedAt >= session.startTime)
+    .map((trace) => trace.path);
+  if (traces.length > 0) {
+    session.traces = traces;
+  }
+}
 
 /**
  * Tool for starting a new code generation session
@@ -32,12 +72,22 @@ export const startCodegenSessionTool = createTool({
       includeComments: args.includeComments,
     };
 
+    // Record the storage state profile the browser session is signed in with
+    // and the HAR file it replays its network traffic from
+    const toolContext = context as unknown as ToolContext;
+    const browserSession = getBrowserSession(toolContext);
+    const profile = getStorageStateProfile(browserSession);
+    const config = browserSession.browserConfig ?? loadBrowserConfig();
+
     // Use the merged playwrightGenerator instead of separate functions
-    const session = playwrightGenerator.createSession(options);
+    const session = playwrightGenerator.createSession(options, {
+      storageState: profile ? getStorageStatePath(profile) : undefined,
+      har: config.replayFromHar && path.resolve(config.replayFromHar),
+    });
 
-    // Store session ID in the context for other tools to access
-    const toolContext = context as unknown as ToolContext;
-    toolContext.codegenSessionId = session.id;
+    // Share the session ID with the other agents of the conversation, whose
+    // browser tool calls are recorded into the session from now on
+    setCodegenSessionId(toolContext, session.id);
 
     return {
       result: {
@@ -70,7 +120,7 @@ export const generateTestTool = createTool({
   }),
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
-    const sessionId = args.sessionId || toolContext.codegenSessionId;
+    const sessionId = args.sessionId || getCodegenSessionId(toolContext);
 
     if (!sessionId) {
       return {
@@ -95,7 +145,8 @@ export const generateTestTool = createTool({
       // Generate test code using the merged service
       const result = await playwrightGenerator.generateTest(sessionId);
 
-      // Save the session for future reference
+      // Save the session (and the traces recorded during it) for future reference
+      await linkTraces(session, toolContext);
       await playwrightGenerator.saveSessionToDisk(sessionId);
 
       return {
@@ -135,7 +186,7 @@ export const endCodegenSessionTool = createTool({
   }),
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
-    const sessionId = args.sessionId || toolContext.codegenSessionId;
+    const sessionId = args.sessionId || getCodegenSessionId(toolContext);
 
     if (!sessionId) {
       return {
@@ -153,10 +204,16 @@ export const endCodegenSessionTool = createTool({
     // End the session
     playwrightGenerator.endSession(sessionId);
 
+    // Stop recording browser tool calls into the session
+    if (sessionId === getCodegenSessionId(toolContext)) {
+      setCodegenSessionId(toolContext);
+    }
+
     // Generate test if requested
     if (args.generateTest) {
       try {
         const result = await playwrightGenerator.generateTest(sessionId);
+        await linkTraces(session, toolContext);
         await playwrightGenerator.saveSessionToDisk(sessionId);
 
         return {
@@ -176,11 +233,9 @@ export const endCodegenSessionTool = createTool({
     }
 
     // Just end the session without generating test
+    await linkTraces(session, toolContext);
     await playwrightGenerator.saveSessionToDisk(sessionId);
 
-    // Clear the session ID from context
-    delete toolContext.codegenSessionId;
-
     return {
       result: {
         message: "Code generation session ended.",
@@ -195,7 +250,8 @@ export const endCodegenSessionTool = createTool({
  */
 export const recordActionTool = createTool({
   name: "recordAction",
-  description: "Record a browser action to the current code generation session",
+  description:
+    "Record a browser action to the current code generation session (browser tool calls are recorded automatically while a session is active)",
   parameters: z.object({
     toolName: z.string().describe("Name of the tool/action being recorded"),
     parameters: z.record(z.unknown()).describe("Parameters of the action"),
@@ -203,7 +259,7 @@ export const recordActionTool = createTool({
   }),
   execute: async (args, context) => {
     const toolContext = context as unknown as ToolContext;
-    const sessionId = args.sessionId || toolContext.codegenSessionId;
+    const sessionId = args.sessionId || getCodegenSessionId(toolContext);
 
     if (!sessionId) {
       return {
@@ -211,6 +267,29 @@ export const recordActionTool = createTool({
       };
     }
 
+    // Browser tool calls are recorded automatically: skip the action if the
+    // last tool call recorded it (its parameters include the defaults the
+    // action may leave out), once, so that deliberate repeats are recorded
+    const lastAction = playwrightGenerator
+      .getSession(sessionId)
+      ?.actions.at(-1);
+    if (
+      lastAction?.autoRecorded &&
+      lastAction.toolName === args.toolName &&
+      Object.entries(args.parameters).every(([key, value]) =>
+        isDeepStrictEqual(lastAction.parameters[key], value)
+      )
+    ) {
+      lastAction.autoRecorded = false;
+      return {
+        result: {
+          message: `Action '${args.toolName}' was already recorded to session ${sessionId}`,
+          actionCount:
+            playwrightGenerator.getSession(sessionId)?.actions.length || 0,
+        },
+      };
+    }
+
     const action = playwrightGenerator.addAction(
       sessionId,
       args.toolName,
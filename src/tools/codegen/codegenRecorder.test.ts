@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { browserSessions } from "../browser/sessionManager";
+import { getCodegenSessionId, recordToolCall } from "./codegenRecorder";
+import { playwrightGenerator } from "./generator";
+
+describe("codegenRecorder", () => {
+  it("looks up the codegen session without creating a browser session", () => {
+    const toolContext = { browserSessionId: "no-browser" };
+
+    assert.equal(getCodegenSessionId(toolContext), undefined);
+    assert.equal(browserSessions.getSession("no-browser"), undefined);
+  });
+
+  it("records tool calls without their screenshot", () => {
+    const session = playwrightGenerator.createSession();
+    const toolContext = { codegenSessionId: session.id };
+
+    recordToolCall(
+      toolContext,
+      "screenshot",
+      { fullPage: true },
+      { result: "Screenshot taken", image: { type: "image", data: "iVBOR" } }
+    );
+
+    assert.deepEqual(session.actions[0].result, {
+      result: "Screenshot taken",
+    });
+    assert.equal(session.actions[0].autoRecorded, true);
+    playwrightGenerator.removeSession(session.id);
+  });
+});
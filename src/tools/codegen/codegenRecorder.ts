@@ -0,0 +1,173 @@
+/**
+ * @file Codegen Recorder
+ * @description Records successful browser tool calls into the active codegen session
+ *
+ * The active codegen session ID is shared by every agent of a conversation:
+ * it is kept in the operation's userContext (passed on from the supervisor to
+ * its sub-agents on handoff, so the code generation agent can start a session
+ * that the browser agent records into) and on the conversation's browser
+ * session (so recording carries on across turns). Browser tools wrapped with
+ * withCodegenRecording add each successful call, its result and the selector
+ * it resolved to the session, without the agent calling recordAction.
+ */
+
+import { createTool, Tool, ToolSchema } from "@voltagent/core";
+import {
+  ElementLocator,
+  ElementMark,
+  ElementRef,
+  ToolContext,
+} from "../common/types";
+import { formatLocator } from "../browser/elementLocator";
+import { getBrowserSession } from "../browser/playwrightToolHandler";
+import { browserSessions } from "../browser/sessionManager";
+import { playwrightGenerator } from "./generator";
+
+// userContext key of the active codegen session ID
+export const CODEGEN_SESSION_KEY = "codegenSessionId";
+
+/**
+ * Get the active codegen session ID of a tool invocation
+ */
+export function getCodegenSessionId(
+  toolContext: ToolContext
+): string | undefined {
+  const sessionId =
+    toolContext.codegenSessionId ??
+    toolContext.operationContext?.userContext?.get(CODEGEN_SESSION_KEY) ??
+    // Looked up without creating a browser session for the conversation
+    browserSessions.getSession(browserSessions.resolveSessionId(toolContext))
+      ?.codegenSessionId;
+
+  return typeof sessionId === "string" && sessionId ? sessionId : undefined;
+}
+
+/**
+ * Set (or clear, without a session ID) the active codegen session ID for all
+ * agents of the conversation
+ */
+export function setCodegenSessionId(
+  toolContext: ToolContext,
+  sessionId?: string
+): void {
+  const userContext = toolContext.operationContext?.userContext;
+
+  if (sessionId) {
+    toolContext.codegenSessionId = sessionId;
+    userContext?.set(CODEGEN_SESSION_KEY, sessionId);
+    getBrowserSession(toolContext).codegenSessionId = sessionId;
+  } else {
+    delete toolContext.codegenSessionId;
+    userContext?.delete(CODEGEN_SESSION_KEY);
+    const browserSession = browserSessions.getSession(
+      browserSessions.resolveSessionId(toolContext)
+    );
+    delete browserSession?.codegenSessionId;
+  }
+}
+
+/**
+ * Selector or locator code of the element a tool call resolved to: the
+ * healed selector, the locator synthesized for a snapshot ref or a mark, or
+ * the locator or selector the tool was given
+ */
+export function getResolvedSelector(
+  parameters: Record<string, unknown>,
+  result: unknown
+): string | undefined {
+  const { usedSelector, ref, mark } = (result ?? {}) as {
+    usedSelector?: string;
+    ref?: ElementRef;
+    mark?: ElementMark;
+  };
+  const selector = parameters.selector as string | undefined;
+  const locator = parameters.locator as ElementLocator | undefined;
+
+  if (usedSelector) {
+    return usedSelector;
+  }
+  if (ref?.locator || ref?.selector) {
+    return formatLocator("page", ref.selector, ref.locator);
+  }
+  if (mark?.locator || mark?.selector) {
+    return mark.code;
+  }
+  if (locator) {
+    return formatLocator("page", selector, locator);
+  }
+  return selector;
+}
+
+/**
+ * Record a tool call into the active codegen session, unless it failed
+ */
+export function recordToolCall(
+  toolContext: ToolContext,
+  toolName: string,
+  parameters: Record<string, unknown>,
+  result: unknown
+): void {
+  const sessionId = getCodegenSessionId(toolContext);
+  if (!sessionId || (result as { error?: unknown } | undefined)?.error) {
+    return;
+  }
+
+  // Sessions that already ended are not recorded into
+  if (playwrightGenerator.getSession(sessionId)?.endTime) {
+    return;
+  }
+
+  // Screenshots are not needed to generate code, and would be kept in memory
+  // for the whole session
+  let recordedResult = result;
+  if (result && typeof result === "object" && "image" in result) {
+    const { image, ...rest } = result;
+    recordedResult = rest;
+  }
+
+  const action = playwrightGenerator.addAction(
+    sessionId,
+    toolName,
+    parameters,
+    recordedResult,
+    getResolvedSelector(parameters, result)
+  );
+  if (action) {
+    action.autoRecorded = true;
+  }
+}
+
+/**
+ * Wrap a tool so that its successful calls are recorded into the active
+ * codegen session
+ */
+function withToolRecording<T extends ToolSchema>(tool: Tool<T>): Tool<T> {
+  return createTool({
+    id: tool.id,
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+    execute: async (args, context) => {
+      const result = await tool.execute(args, context);
+      recordToolCall(
+        context as unknown as ToolContext,
+        tool.name,
+        args,
+        result
+      );
+      return result;
+    },
+  });
+}
+
+/**
+ * Wrap tools so that their successful calls are recorded into the active
+ * codegen session
+ */
+export function withCodegenRecording<SCHEMAS extends ToolSchema[]>(tools: {
+  [K in keyof SCHEMAS]: Tool<SCHEMAS[K]>;
+}): { [K in keyof SCHEMAS]: Tool<SCHEMAS[K]> } {
+  return tools.map(withToolRecording) as {
+    [K in keyof SCHEMAS]: Tool<SCHEMAS[K]>;
+  };
+}
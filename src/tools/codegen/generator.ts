@@ -1,14 +1,55 @@
 import * as fs from "fs/promises";
 import * as path from "path";
 import { v4 as uuidv4 } from "uuid";
+import { TextMatchMode, toTextMatcher } from "../browser/assertionTool";
+import { formatLocator } from "../browser/elementLocator";
+import { DEFAULT_DIFF_THRESHOLD } from "../browser/imageDiff";
+import { getStorageStatePath } from "../browser/storageProfiles";
+import { COMMON_USER_AGENTS } from "../browser/userAgentTool";
+import { ElementLocator, ElementMark, ElementRef } from "../common/types";
 import {
   CodegenAction,
   CodegenOptions,
   CodegenResult,
   CodegenSession,
+  HealedSelector,
   PlaywrightTestCase,
 } from "./types";
 
+/**
+ * Whether a recorded value (tool result or part of it) is an object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a recorded value is an array of strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+/**
+ * Whether a recorded value is a pageSnapshot element ref
+ */
+function isElementRef(value: unknown): value is ElementRef {
+  return isRecord(value) && typeof value.ref === "string";
+}
+
+/**
+ * Whether a recorded value is a markedScreenshot element mark
+ */
+function isElementMark(value: unknown): value is ElementMark {
+  return (
+    isRecord(value) &&
+    typeof value.mark === "number" &&
+    typeof value.code === "string"
+  );
+}
+
 /**
  * Manages Playwright test code generation and recording sessions from VoltAgent actions
  */
@@ -22,6 +63,20 @@ export class PlaywrightGenerator {
   // Default directory for storing sessions
   private static readonly DEFAULT_SESSIONS_DIR = "sessions";
 
+  // Tools that open, switch or close tabs
+  private static readonly TAB_TOOLS = [
+    "newTab",
+    "switchTab",
+    "closeTab",
+    "waitForPopup",
+  ];
+
+  // Maps runtime tab IDs to variable names in the generated test
+  private tabVariables: Map<string, string> = new Map();
+
+  // Number of variables declared per name (download, fileChooser) in the test
+  private variableCounts: Map<string, number> = new Map();
+
   private options: Required<CodegenOptions>;
 
   // In-memory store for active sessions
@@ -50,12 +105,16 @@ export class PlaywrightGenerator {
   /**
    * Create a new code generation session
    */
-  createSession(options?: CodegenOptions): CodegenSession {
+  createSession(
+    options?: CodegenOptions,
+    browserState: Pick<CodegenSession, "storageState" | "har"> = {}
+  ): CodegenSession {
     const session: CodegenSession = {
       id: uuidv4(),
       actions: [],
       startTime: Date.now(),
       options: { ...this.options, ...options },
+      ...browserState,
     };
 
     PlaywrightGenerator.activeSessions.set(session.id, session);
@@ -69,7 +128,8 @@ export class PlaywrightGenerator {
     sessionId: string,
     toolName: string,
     parameters: Record<string, unknown>,
-    result?: unknown
+    result?: unknown,
+    resolvedSelector?: string
   ): CodegenAction | null {
     const session = PlaywrightGenerator.activeSessions.get(sessionId);
 
@@ -82,12 +142,35 @@ export class PlaywrightGenerator {
       parameters,
       timestamp: Date.now(),
       result,
+      resolvedSelector,
     };
 
     session.actions.push(action);
     return action;
   }
 
+  /**
+   * Record a selector healed by the browser session, used in place of the
+   * original selector by all actions of the session
+   */
+  addHealedSelector(
+    sessionId: string,
+    originalSelector: string,
+    healed: HealedSelector
+  ): boolean {
+    const session = PlaywrightGenerator.activeSessions.get(sessionId);
+
+    if (!session) {
+      return false;
+    }
+
+    session.healedSelectors = {
+      ...session.healedSelectors,
+      [originalSelector]: healed,
+    };
+    return true;
+  }
+
   /**
    * End a code generation session
    */
@@ -280,10 +363,48 @@ export class PlaywrightGenerator {
       }`,
       steps: [],
       imports: new Set(["test", "expect"]),
+      useOptions: [],
     };
 
+    this.addEmulationOptions(session, testCase);
+
+    // Start signed in if the session started from (or loaded) a saved profile
+    const storageState = session.storageState ?? this.findStorageState(session);
+    if (storageState) {
+      testCase.useOptions.push(`storageState: \`${storageState}\``);
+    }
+
+    // Serve responses from the HAR the session replayed or recorded
+    const har = session.har ?? this.findRecordedHar(session);
+    if (har) {
+      testCase.steps.push(
+        `await page.routeFromHAR(\`${har}\`, { notFound: 'fallback' });`
+      );
+    }
+
+    // The first tab is the page fixture of the test
+    this.tabVariables = new Map([["tab-1", "tab1"]]);
+    this.variableCounts = new Map();
+    if (
+      session.actions.some((action) =>
+        PlaywrightGenerator.TAB_TOOLS.includes(action.toolName)
+      )
+    ) {
+      testCase.steps.push("const tab1 = page;");
+    }
+
+    // Dialogs of every tab are answered by one handler, like the browser
+    // session does (see dialogManager.ts)
+    if (
+      session.actions.some((action) => action.toolName === "setDialogPolicy")
+    ) {
+      testCase.steps.push(this.generateDialogHandler());
+    }
+
     for (const action of session.actions) {
-      const step = this.convertActionToStep(action);
+      const step = this.convertActionToStep(
+        this.applyHealedSelector(session, action)
+      );
       if (step) {
         testCase.steps.push(step);
       }
@@ -292,8 +413,123 @@ export class PlaywrightGenerator {
     return testCase;
   }
 
+  /**
+   * Replace the selector of an action healed during the session (keyed like
+   * the browser session does: the raw selector, or the locator code)
+   */
+  private applyHealedSelector(
+    session: CodegenSession,
+    action: CodegenAction
+  ): CodegenAction {
+    const { selector, locator } = action.parameters as {
+      selector?: string;
+      locator?: ElementLocator;
+    };
+    const key = locator ? formatLocator("page", selector, locator) : selector;
+    const healed = key ? session.healedSelectors?.[key] : undefined;
+    if (!healed) {
+      return action;
+    }
+
+    return {
+      ...action,
+      parameters: {
+        ...action.parameters,
+        selector: healed.selector,
+        locator: healed.locator,
+      },
+    };
+  }
+
+  /**
+   * Hoist device and environment emulation of the session into test.use
+   */
+  private addEmulationOptions(
+    session: CodegenSession,
+    testCase: PlaywrightTestCase
+  ): void {
+    let device: string | undefined;
+    const options: Record<string, unknown> = {};
+
+    for (const { toolName, parameters } of session.actions) {
+      if (toolName === "emulateDevice") {
+        const { device: name, userAgentPreset, ...custom } = parameters;
+        if (typeof name === "string") {
+          device = name;
+        }
+        for (const [key, value] of Object.entries(custom)) {
+          if (value !== undefined) {
+            options[key] = value;
+          }
+        }
+        if (typeof userAgentPreset === "string") {
+          options.userAgent =
+            COMMON_USER_AGENTS[
+              userAgentPreset as keyof typeof COMMON_USER_AGENTS
+            ];
+        }
+      } else if (
+        toolName === "setUserAgent" ||
+        toolName === "playwright_custom_user_agent"
+      ) {
+        options.userAgent = parameters.userAgent;
+      }
+    }
+
+    if (options.geolocation) {
+      const permissions = (options.permissions as string[] | undefined) ?? [];
+      if (!permissions.includes("geolocation")) {
+        options.permissions = [...permissions, "geolocation"];
+      }
+    }
+
+    if (device) {
+      testCase.imports.add("devices");
+      testCase.useOptions.push(`...devices[${JSON.stringify(device)}]`);
+    }
+    for (const [key, value] of Object.entries(options)) {
+      testCase.useOptions.push(`${key}: ${JSON.stringify(value)}`);
+    }
+  }
+
+  /**
+   * Find the HAR file recorded during the session, if any
+   */
+  private findRecordedHar(session: CodegenSession): string | undefined {
+    for (const action of session.actions) {
+      const result = action.result as Record<string, unknown> | undefined;
+      if (
+        action.toolName === "stopHarRecording" &&
+        typeof result?.path === "string"
+      ) {
+        return result.path;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the storage state file loaded during the session, if any
+   */
+  private findStorageState(session: CodegenSession): string | undefined {
+    const action = session.actions.find(
+      (action) => action.toolName === "loadStorageState"
+    );
+    if (!action) {
+      return undefined;
+    }
+
+    const result = action.result as Record<string, unknown> | undefined;
+    if (typeof result?.path === "string") {
+      return result.path;
+    }
+    return typeof action.parameters.profile === "string"
+      ? getStorageStatePath(action.parameters.profile)
+      : undefined;
+  }
+
   private convertActionToStep(action: CodegenAction): string | null {
-    const { toolName, parameters } = action;
+    const { toolName, parameters, result } = action;
 
     switch (toolName) {
       // Navigation tools
@@ -309,34 +545,111 @@ export class PlaywrightGenerator {
       case "closeBrowser":
         return this.generateCloseBrowserStep();
 
+      // Tab tools
+      case "newTab":
+        return this.generateNewTabStep(parameters, result);
+      case "switchTab":
+        return this.generateSwitchTabStep(parameters);
+      case "closeTab":
+        return this.generateCloseTabStep(parameters, result);
+      case "waitForPopup":
+        return this.generateWaitForPopupStep(parameters, result);
+      case "listTabs":
+        return null;
+
+      // Storage state tools
+      case "saveStorageState":
+        return this.generateSaveStorageStateStep(parameters, result);
+      case "loadStorageState":
+        return `// Storage state loaded from profile "${parameters.profile}" (see test.use)`;
+
+      // Cookie tools
+      case "getCookies":
+        return null;
+      case "setCookies":
+        return this.generateSetCookiesStep(parameters);
+      case "clearCookies":
+        return this.generateClearCookiesStep(parameters);
+      case "deleteCookie":
+        return this.generateClearCookiesStep(parameters);
+
+      // Route tools
+      case "mockRoute":
+      case "abortRoute":
+      case "modifyRoute":
+        return this.generateRouteStep(toolName, parameters);
+      case "clearRoutes":
+        return this.generateClearRoutesStep(parameters, result);
+      case "listRoutes":
+      case "getNetworkLog":
+        return null;
+
+      // HAR tools (the recorded HAR is replayed with page.routeFromHAR)
+      case "startHarRecording":
+      case "stopHarRecording":
+        return null;
+
+      // Tracing tools (traces are linked in the saved session instead)
+      case "startTracing":
+      case "stopTracing":
+        return null;
+
       // Form and interaction tools
+      // (elements inside iframes are reached through frameLocator chains)
       case "playwright_fill":
       case "type":
-        return this.generateFillStep(parameters);
+        return this.generateFillStep(parameters, result);
       case "playwright_click":
       case "click":
-        return this.generateClickStep(parameters);
+        return this.generateClickStep(parameters, result);
+      case "getText":
       case "getTextTool":
-        return this.generateGetTextStep(parameters);
+        return this.generateGetTextStep(parameters, result);
       case "playwright_select":
       case "selectOption":
-        return this.generateSelectStep(parameters);
+        return this.generateSelectStep(parameters, result);
       case "check":
-        return this.generateCheckStep(parameters);
+        return this.generateCheckStep(parameters, result);
       case "uncheck":
-        return this.generateUncheckStep(parameters);
+        return this.generateUncheckStep(parameters, result);
       case "playwright_hover":
       case "hover":
-        return this.generateHoverStep(parameters);
+        return this.generateHoverStep(parameters, result);
       case "pressKey":
-        return this.generatePressKeyStep(parameters);
+        return this.generatePressKeyStep(parameters, result);
       case "waitForElement":
-        return this.generateWaitForElementStep(parameters);
+        return this.generateWaitForElementStep(parameters, result);
+      case "dragAndDrop":
+        return this.generateDragAndDropStep(parameters, result);
+      case "scroll":
+        return this.generateScrollStep(parameters, result);
+      case "mouseClickAt":
+        return this.generateMouseClickAtStep(parameters);
+      case "mouseMovePath":
+        return this.generateMouseMovePathStep(parameters);
+
+      // Frame tools
+      case "listFrames":
+        return null;
+
+      // Dialog tools
+      case "setDialogPolicy":
+        return this.generateSetDialogPolicyStep(parameters);
+      case "getDialogs":
+        return null;
+
+      // File upload and download tools
+      case "uploadFile":
+        return this.generateUploadFileStep(parameters, result);
+      case "captureDownload":
+        return this.generateCaptureDownloadStep(parameters, result);
 
       // Screenshot and export tools
       case "playwright_screenshot":
       case "screenshot":
-        return this.generateScreenshotStep(parameters);
+        return this.generateScreenshotStep(parameters, result);
+      case "compareScreenshot":
+        return this.generateCompareScreenshotStep(parameters);
       case "saveToFile":
         return this.generateSaveToFileStep(parameters);
       case "exportPdf":
@@ -351,21 +664,45 @@ export class PlaywrightGenerator {
       case "playwright_assert_response":
       case "assertResponse":
         return this.generateAssertResponseStep(parameters);
-
-      // User agent tools
+      case "expectVisible":
+      case "expectHidden":
+      case "expectText":
+      case "expectValue":
+      case "expectCount":
+      case "expectAttribute":
+      case "expectChecked":
+      case "expectURL":
+      case "expectTitle":
+        return this.generateAssertionStep(toolName, parameters, result);
+
+      // User agent and emulation tools (options are hoisted into test.use)
       case "playwright_custom_user_agent":
       case "setUserAgent":
-        return this.generateCustomUserAgentStep(parameters);
+        return `// User agent set to "${parameters.userAgent}" (see test.use)`;
+      case "emulateDevice":
+        return `// Emulating ${
+          parameters.device ?? "custom environment"
+        } (see test.use)`;
       case "getUserAgent":
         return this.generateGetUserAgentStep();
 
       // Visibility and DOM tools
       case "getVisibleText":
-        return this.generateGetVisibleTextStep(parameters);
+        return this.generateGetVisibleTextStep(parameters, result);
       case "getVisibleHtml":
-        return this.generateGetVisibleHtmlStep(parameters);
+        return this.generateGetVisibleHtmlStep(parameters, result);
       case "listInteractiveElements":
         return this.generateListInteractiveElementsStep();
+      case "pageSnapshot":
+        return null;
+
+      // Set-of-marks tools (marks are replaced by the selector of the element)
+      case "markedScreenshot":
+        return null;
+      case "clickMark":
+      case "typeIntoMark":
+      case "hoverMark":
+        return this.generateMarkStep(toolName, parameters, result);
 
       default:
         console.warn(`Unsupported tool: ${toolName}`);
@@ -394,58 +731,809 @@ export class PlaywrightGenerator {
     return `await browser.close();`;
   }
 
-  private generateFillStep(parameters: Record<string, unknown>): string {
+  /**
+   * Get the variable name of a tab, registering new tabs as they appear
+   */
+  private getTabVariable(tabId?: unknown): string {
+    const id =
+      typeof tabId === "string" && tabId
+        ? tabId
+        : `tab-${this.tabVariables.size + 1}`;
+
+    let variable = this.tabVariables.get(id);
+    if (!variable) {
+      variable = id.replace(/[^a-zA-Z0-9_]/g, "");
+      this.tabVariables.set(id, variable);
+    }
+    return variable;
+  }
+
+  /**
+   * Read the tab ID from a recorded tool result
+   */
+  private getResultTabId(result: unknown, key = "tab"): string | undefined {
+    const tab = isRecord(result) ? result[key] : undefined;
+    return isRecord(tab) && typeof tab.id === "string" ? tab.id : undefined;
+  }
+
+  private generateNewTabStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
+    const tab = this.getTabVariable(this.getResultTabId(result));
+    const steps = [`const ${tab} = await context.newPage();`, `page = ${tab};`];
+    if (parameters.url) {
+      steps.push(`await page.goto(\`${parameters.url}\`);`);
+    }
+    return steps.join("\n");
+  }
+
+  private generateSwitchTabStep(parameters: Record<string, unknown>): string {
+    const tab = this.getTabVariable(parameters.tabId);
+    return [`page = ${tab};`, `await page.bringToFront();`].join("\n");
+  }
+
+  private generateCloseTabStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
+    const steps = [
+      parameters.tabId
+        ? `await ${this.getTabVariable(parameters.tabId)}.close();`
+        : `await page.close();`,
+    ];
+    const activeTabId = this.getResultTabId(result, "activeTab");
+    if (activeTabId) {
+      steps.push(`page = ${this.getTabVariable(activeTabId)};`);
+    }
+    return steps.join("\n");
+  }
+
+  private generateWaitForPopupStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
+    const tab = this.getTabVariable(this.getResultTabId(result));
+    const steps = [`const ${tab}Promise = context.waitForEvent('page');`];
+    if (parameters.triggerSelector) {
+      steps.push(`await page.click(\`${parameters.triggerSelector}\`);`);
+    }
+    steps.push(
+      `const ${tab} = await ${tab}Promise;`,
+      `await ${tab}.waitForLoadState();`
+    );
+    if (parameters.switchTo !== false) {
+      steps.push(`page = ${tab};`);
+    }
+    return steps.join("\n");
+  }
+
+  private generateSaveStorageStateStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
+    const savedPath = (result as Record<string, unknown> | undefined)?.path;
+    const filePath =
+      typeof savedPath === "string"
+        ? savedPath
+        : getStorageStatePath(String(parameters.profile));
+    return `await context.storageState({ path: \`${filePath}\` });`;
+  }
+
+  private generateSetCookiesStep(parameters: Record<string, unknown>): string {
+    const cookies = JSON.stringify(parameters.cookies ?? []);
+    return `await context.addCookies(${cookies});`;
+  }
+
+  private generateClearCookiesStep(
+    parameters: Record<string, unknown>
+  ): string {
+    const filter = Object.fromEntries(
+      ["name", "domain", "path"]
+        .filter((key) => typeof parameters[key] === "string")
+        .map((key) => [key, parameters[key]])
+    );
+    return Object.keys(filter).length
+      ? `await context.clearCookies(${JSON.stringify(filter)});`
+      : `await context.clearCookies();`;
+  }
+
+  private generateRouteMatcher(parameters: Record<string, unknown>): string {
+    return parameters.isRegex
+      ? `new RegExp(${JSON.stringify(parameters.url)})`
+      : `\`${parameters.url}\``;
+  }
+
+  private generateRouteStep(
+    toolName: string,
+    parameters: Record<string, unknown>
+  ): string {
+    const body: string[] = [];
+    if (parameters.delay) {
+      body.push(
+        `await new Promise((resolve) => setTimeout(resolve, ${parameters.delay}));`
+      );
+    }
+
+    const fulfill: string[] = [];
+    if (parameters.status !== undefined) {
+      fulfill.push(`status: ${parameters.status}`);
+    }
+    if (parameters.contentType) {
+      fulfill.push(`contentType: ${JSON.stringify(parameters.contentType)}`);
+    }
+    if (parameters.json !== undefined) {
+      fulfill.push(`json: ${JSON.stringify(parameters.json)}`);
+    }
+    if (parameters.body !== undefined) {
+      fulfill.push(`body: ${JSON.stringify(parameters.body)}`);
+    }
+    if (parameters.bodyFile) {
+      fulfill.push(`path: ${JSON.stringify(parameters.bodyFile)}`);
+    }
+
+    if (toolName === "abortRoute") {
+      body.push(
+        `await route.abort(${JSON.stringify(
+          parameters.errorCode ?? "failed"
+        )});`
+      );
+    } else if (toolName === "modifyRoute") {
+      const headers = parameters.headers
+        ? `{ ...response.headers(), ...${JSON.stringify(parameters.headers)} }`
+        : `response.headers()`;
+      body.push(
+        `const response = await route.fetch();`,
+        `await route.fulfill({ response, headers: ${headers}${fulfill
+          .map((option) => `, ${option}`)
+          .join("")} });`
+      );
+    } else {
+      if (parameters.headers) {
+        fulfill.push(`headers: ${JSON.stringify(parameters.headers)}`);
+      }
+      body.push(`await route.fulfill({ ${fulfill.join(", ")} });`);
+    }
+
+    const times = parameters.mode === "once" ? ", { times: 1 }" : "";
+    return [
+      `await page.route(${this.generateRouteMatcher(
+        parameters
+      )}, async (route) => {`,
+      ...body.map((line) => `  ${line}`),
+      `}${times});`,
+    ].join("\n");
+  }
+
+  private generateClearRoutesStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
+    const cleared = (result as Record<string, unknown> | undefined)?.cleared;
+    if (parameters.routeId && Array.isArray(cleared)) {
+      return cleared
+        .map(
+          (route: Record<string, unknown>) =>
+            `await page.unroute(${this.generateRouteMatcher(route)});`
+        )
+        .join("\n");
+    }
+    return `await page.unrouteAll();`;
+  }
+
+  /**
+   * Build the page.frameLocator() chain of the frame an element tool acted in
+   */
+  private getFrameLocator(result: unknown): string | undefined {
+    const selectors = isRecord(result) ? result.frameSelectors : undefined;
+    if (!isStringArray(selectors) || selectors.length === 0) {
+      return undefined;
+    }
+
+    return selectors.reduce(
+      (chain, selector) => `${chain}.frameLocator(\`${selector}\`)`,
+      "page"
+    );
+  }
+
+  /**
+   * Build the locator of the element a tool acted on when it used a semantic
+   * locator, a snapshot ref or a frame, e.g.
+   * page.getByRole('button', { name: 'Save' })
+   */
+  private getElementLocator(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string | undefined {
+    const frame = this.getFrameLocator(result);
+    // Snapshot refs are replaced by the robust locator the tool returned
+    const ref =
+      isRecord(result) && isElementRef(result.ref) ? result.ref : undefined;
+    const locator = (parameters.locator ?? ref?.locator) as
+      | ElementLocator
+      | undefined;
+    const selector = (ref?.selector ?? parameters.selector) as
+      | string
+      | undefined;
+    if (!frame && !locator && !ref) {
+      return undefined;
+    }
+
+    return formatLocator(frame ?? "page", selector, locator);
+  }
+
+  private generateFillStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
     const selector = parameters.selector ? `\`${parameters.selector}\`` : '""';
     const text = parameters.text ? `\`${parameters.text}\`` : '""';
+    const element = this.getElementLocator(parameters, result);
+    if (element) {
+      return `await ${element}.fill(${text});`;
+    }
     return `await page.fill(${selector}, ${text});`;
   }
 
-  private generateClickStep(parameters: Record<string, unknown>): string {
+  private generateClickStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
     const selector = parameters.selector ? `\`${parameters.selector}\`` : '""';
+    const element = this.getElementLocator(parameters, result);
+    if (element) {
+      return `await ${element}.click();`;
+    }
     return `await page.click(${selector});`;
   }
 
-  private generateGetTextStep(parameters: Record<string, unknown>): string {
+  private generateGetTextStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
     const selector = parameters.selector ? `\`${parameters.selector}\`` : '""';
+    const element = this.getElementLocator(parameters, result);
+    if (element) {
+      return `const text = await ${element}.textContent();`;
+    }
     return `const text = await page.textContent(${selector});`;
   }
 
-  private generateSelectStep(parameters: Record<string, unknown>): string {
+  private generateSelectStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
     const selector = parameters.selector ? `\`${parameters.selector}\`` : '""';
-    const value = parameters.value ? `\`${parameters.value}\`` : '""';
+    const values = parameters.values ?? parameters.value;
+    const value = Array.isArray(values)
+      ? `[${values.map((item) => `\`${item}\``).join(", ")}]`
+      : values
+      ? `\`${values}\``
+      : '""';
+    const element = this.getElementLocator(parameters, result);
+    if (element) {
+      return `await ${element}.selectOption(${value});`;
+    }
     return `await page.selectOption(${selector}, ${value});`;
   }
 
-  private generateCheckStep(parameters: Record<string, unknown>): string {
+  private generateCheckStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
     const selector = parameters.selector ? `\`${parameters.selector}\`` : '""';
+    const element = this.getElementLocator(parameters, result);
+    if (element) {
+      return `await ${element}.check();`;
+    }
     return `await page.check(${selector});`;
   }
 
-  private generateUncheckStep(parameters: Record<string, unknown>): string {
+  private generateUncheckStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
     const selector = parameters.selector ? `\`${parameters.selector}\`` : '""';
+    const element = this.getElementLocator(parameters, result);
+    if (element) {
+      return `await ${element}.uncheck();`;
+    }
     return `await page.uncheck(${selector});`;
   }
 
-  private generateHoverStep(parameters: Record<string, unknown>): string {
+  private generateHoverStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
     const selector = parameters.selector ? `\`${parameters.selector}\`` : '""';
+    const element = this.getElementLocator(parameters, result);
+    if (element) {
+      return `await ${element}.hover();`;
+    }
     return `await page.hover(${selector});`;
   }
 
-  private generatePressKeyStep(parameters: Record<string, unknown>): string {
+  /**
+   * Generate the step of a set-of-marks tool from the selector synthesized for
+   * the marked element
+   */
+  private generateMarkStep(
+    toolName: string,
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
+    const mark =
+      isRecord(result) && isElementMark(result.mark) ? result.mark : undefined;
+    if (!mark?.selector && !mark?.locator) {
+      return `// ${toolName}: no stable selector found for mark ${parameters.mark}`;
+    }
+
+    const elementParameters = {
+      ...parameters,
+      selector: mark.selector,
+      locator: mark.locator,
+    };
+    switch (toolName) {
+      case "clickMark":
+        return this.generateClickStep(elementParameters, result);
+      case "hoverMark":
+        return this.generateHoverStep(elementParameters, result);
+      default: {
+        const text = `\`${parameters.text ?? ""}\``;
+        const steps =
+          isRecord(result) && result.method === "keyboard"
+            ? [
+                this.generateClickStep(elementParameters, result),
+                `await page.keyboard.type(${text});`,
+              ]
+            : [this.generateFillStep(elementParameters, result)];
+        if (parameters.pressEnter) {
+          steps.push("await page.keyboard.press(`Enter`);");
+        }
+        return steps.join("\n");
+      }
+    }
+  }
+
+  private generatePressKeyStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
     const key = parameters.key ? `\`${parameters.key}\`` : '""';
-    return `await page.press(${key});`;
+    // The tool focuses the element, if any, and presses the key on the page
+    if (typeof parameters.selector === "string" && parameters.selector) {
+      const frame = this.getFrameLocator(result);
+      return `await ${formatLocator(
+        frame ?? "page",
+        parameters.selector
+      )}.press(${key});`;
+    }
+    return `await page.keyboard.press(${key});`;
   }
 
   private generateWaitForElementStep(
-    parameters: Record<string, unknown>
+    parameters: Record<string, unknown>,
+    result: unknown
   ): string {
     const selector = parameters.selector ? `\`${parameters.selector}\`` : '""';
+    const element = this.getElementLocator(parameters, result);
+    if (element) {
+      const state =
+        parameters.state && parameters.state !== "visible"
+          ? `{ state: '${parameters.state}' }`
+          : "";
+      return `await ${element}.waitFor(${state});`;
+    }
     return `await page.waitForSelector(${selector});`;
   }
 
-  private generateScreenshotStep(parameters: Record<string, unknown>): string {
+  /**
+   * Render the expected text of an assertion as a string or regex literal
+   */
+  private formatTextMatcher(
+    parameters: Record<string, unknown>,
+    key: string,
+    ignoreCase = Boolean(parameters.ignoreCase)
+  ): string {
+    const matcher = toTextMatcher(
+      String(parameters[key] ?? ""),
+      parameters.match as TextMatchMode | undefined,
+      ignoreCase
+    );
+    return typeof matcher === "string"
+      ? JSON.stringify(matcher)
+      : String(matcher);
+  }
+
+  private generateAssertionStep(
+    toolName: string,
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
+    const expectCall = parameters.soft ? "expect.soft" : "expect";
+    if (toolName === "expectURL") {
+      return `await ${expectCall}(page).toHaveURL(${this.formatTextMatcher(
+        parameters,
+        "url"
+      )});`;
+    }
+    if (toolName === "expectTitle") {
+      return `await ${expectCall}(page).toHaveTitle(${this.formatTextMatcher(
+        parameters,
+        "title"
+      )});`;
+    }
+
+    // Raw selectors are strict in assertions, as in the generated expect()
+    const element =
+      this.getElementLocator(parameters, result) ??
+      formatLocator("page", parameters.selector as string | undefined);
+    const ignoreCase = parameters.ignoreCase ? ", { ignoreCase: true }" : "";
+    let assertion: string;
+    switch (toolName) {
+      case "expectVisible":
+        assertion = "toBeVisible()";
+        break;
+      case "expectHidden":
+        assertion = "toBeHidden()";
+        break;
+      case "expectText":
+        // toHaveText and toContainText take ignoreCase as an option
+        assertion =
+          parameters.match === "contains"
+            ? `toContainText(${JSON.stringify(parameters.text)}${ignoreCase})`
+            : `toHaveText(${this.formatTextMatcher(
+                parameters,
+                "text",
+                parameters.match === "regex" && Boolean(parameters.ignoreCase)
+              )}${parameters.match === "regex" ? "" : ignoreCase})`;
+        break;
+      case "expectValue":
+        assertion = `toHaveValue(${this.formatTextMatcher(
+          parameters,
+          "value"
+        )})`;
+        break;
+      case "expectCount":
+        assertion = `toHaveCount(${Number(parameters.count)})`;
+        break;
+      case "expectAttribute":
+        assertion =
+          parameters.value === undefined
+            ? `toHaveAttribute(${JSON.stringify(parameters.name)})`
+            : `toHaveAttribute(${JSON.stringify(
+                parameters.name
+              )}, ${this.formatTextMatcher(parameters, "value")})`;
+        break;
+      default:
+        assertion =
+          parameters.checked === false
+            ? "toBeChecked({ checked: false })"
+            : "toBeChecked()";
+    }
+
+    return `await ${expectCall}(${element}).${assertion};`;
+  }
+
+  /**
+   * Generate the handler answering the dialogs of every tab by the first
+   * matching "once" policy, then the last matching "always" policy
+   * (dismissed otherwise)
+   */
+  private generateDialogHandler(): string {
+    return [
+      "let dialogPolicies: { action: 'accept' | 'dismiss'; promptText?: string; mode: 'once' | 'always'; dialogType?: string }[] = [];",
+      "context.on('dialog', (dialog) => {",
+      "  const matches = (policy: (typeof dialogPolicies)[number]) =>",
+      "    !policy.dialogType || policy.dialogType === dialog.type();",
+      "  const oncePolicy = dialogPolicies.find((policy) => policy.mode === 'once' && matches(policy));",
+      "  dialogPolicies = dialogPolicies.filter((policy) => policy !== oncePolicy);",
+      "  const policy =",
+      "    oncePolicy ??",
+      "    dialogPolicies.filter((policy) => policy.mode === 'always' && matches(policy)).pop();",
+      "  return policy?.action === 'accept' ? dialog.accept(policy.promptText) : dialog.dismiss();",
+      "});",
+    ].join("\n");
+  }
+
+  private generateSetDialogPolicyStep(
+    parameters: Record<string, unknown>
+  ): string {
+    const mode = parameters.mode === "once" ? "once" : "always";
+    const policy = [
+      `action: '${parameters.action === "accept" ? "accept" : "dismiss"}'`,
+      parameters.promptText !== undefined
+        ? `promptText: \`${parameters.promptText}\``
+        : "",
+      `mode: '${mode}'`,
+      parameters.dialogType ? `dialogType: '${parameters.dialogType}'` : "",
+    ].filter(Boolean);
+    const steps = [`dialogPolicies.push({ ${policy.join(", ")} });`];
+
+    // A new "always" policy replaces the previous one for the same dialog type
+    if (mode === "always") {
+      const dialogType = parameters.dialogType
+        ? `'${parameters.dialogType}'`
+        : "undefined";
+      steps.unshift(
+        `dialogPolicies = dialogPolicies.filter((policy) => policy.mode === 'once' || policy.dialogType !== ${dialogType});`
+      );
+    }
+    return steps.join("\n");
+  }
+
+  /**
+   * Get a variable name not declared yet in the test (download, download1, ...)
+   */
+  private nextVariable(name: string): string {
+    const count = this.variableCounts.get(name) ?? 0;
+    this.variableCounts.set(name, count + 1);
+    return count ? `${name}${count}` : name;
+  }
+
+  private generateUploadFileStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
+    const buffers = parameters.buffers as
+      | {
+          name: string;
+          mimeType?: string;
+          content: string;
+          encoding?: string;
+        }[]
+      | undefined;
+    const files = buffers?.length
+      ? buffers.map(
+          (file) =>
+            `{ name: \`${file.name}\`, mimeType: \`${
+              file.mimeType ?? "application/octet-stream"
+            }\`, buffer: Buffer.from(${JSON.stringify(file.content)}, '${
+              file.encoding ?? "utf8"
+            }') }`
+        )
+      : ((parameters.files as string[] | undefined) ?? []).map(
+          (file) => `\`${file}\``
+        );
+    const fileList = `[${files.join(", ")}]`;
+
+    if (parameters.triggerSelector) {
+      const fileChooser = this.nextVariable("fileChooser");
+      return [
+        `const ${fileChooser}Promise = page.waitForEvent('filechooser');`,
+        this.generateClickStep(
+          { selector: parameters.triggerSelector },
+          result
+        ),
+        `const ${fileChooser} = await ${fileChooser}Promise;`,
+        `await ${fileChooser}.setFiles(${fileList});`,
+      ].join("\n");
+    }
+
+    const selector = parameters.selector ? `\`${parameters.selector}\`` : '""';
+    const frame = this.getFrameLocator(result);
+    if (frame) {
+      return `await ${frame}.locator(${selector}).setInputFiles(${fileList});`;
+    }
+    return `await page.setInputFiles(${selector}, ${fileList});`;
+  }
+
+  private generateCaptureDownloadStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
+    const download = this.nextVariable("download");
+    const directory = parameters.directory ?? "downloads";
+    const savedFilename = isRecord(result) ? result.filename : undefined;
+    const filename =
+      parameters.filename ??
+      (typeof savedFilename === "string" ? savedFilename : undefined) ??
+      `\${${download}.suggestedFilename()}`;
+
+    return [
+      `const ${download}Promise = page.waitForEvent('download');`,
+      this.generateClickStep({ selector: parameters.triggerSelector }, result),
+      `const ${download} = await ${download}Promise;`,
+      `await ${download}.saveAs(\`${directory}/${filename}\`);`,
+    ].join("\n");
+  }
+
+  private generateDragAndDropStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
+    const source = `\`${parameters.sourceSelector}\``;
+    const scope = this.getFrameLocator(result) ?? "page";
+    const sourcePosition = parameters.sourcePosition as
+      | { x: number; y: number }
+      | undefined;
+
+    if (parameters.targetSelector) {
+      const target = `\`${parameters.targetSelector}\``;
+      const positions = ["sourcePosition", "targetPosition"]
+        .filter((key) => parameters[key])
+        .map((key) => `${key}: ${JSON.stringify(parameters[key])}`);
+      const options = positions.length ? `, { ${positions.join(", ")} }` : "";
+      return `await ${scope}.locator(${source}).dragTo(${scope}.locator(${target})${options});`;
+    }
+
+    // Drag with the mouse by the offset
+    const offset = parameters.offset as { x: number; y: number };
+    const box = this.nextVariable("box");
+    const startX = sourcePosition
+      ? `${box}!.x + ${sourcePosition.x}`
+      : `${box}!.x + ${box}!.width / 2`;
+    const startY = sourcePosition
+      ? `${box}!.y + ${sourcePosition.y}`
+      : `${box}!.y + ${box}!.height / 2`;
+    return [
+      `const ${box} = await ${scope}.locator(${source}).boundingBox();`,
+      `await page.mouse.move(${startX}, ${startY});`,
+      `await page.mouse.down();`,
+      `await page.mouse.move(${startX} + ${offset.x}, ${startY} + ${
+        offset.y
+      }, { steps: ${parameters.steps ?? 10} });`,
+      `await page.mouse.up();`,
+    ].join("\n");
+  }
+
+  private generateScrollStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
+    const frame = this.getFrameLocator(result);
+
+    if (parameters.selector) {
+      return `await ${frame ?? "page"}.locator(\`${
+        parameters.selector
+      }\`).scrollIntoViewIfNeeded();`;
+    }
+
+    // Frame locators can't evaluate scripts: scroll the frame's document element
+    const evaluate = (script: string) =>
+      frame
+        ? `${frame}.locator('html').evaluate((html) => ${script.replace(
+            /document\.documentElement/g,
+            "html"
+          )})`
+        : `page.evaluate(() => ${script})`;
+
+    if (parameters.toBottom) {
+      return [
+        `for (let i = 0, height = 0; i < ${
+          parameters.maxScrolls ?? 20
+        }; i++) {`,
+        `  await ${evaluate(
+          "window.scrollTo(0, document.documentElement.scrollHeight)"
+        )};`,
+        `  await page.waitForTimeout(${parameters.waitForContent ?? 1000});`,
+        `  const newHeight = await ${evaluate(
+          "document.documentElement.scrollHeight"
+        )};`,
+        `  if (newHeight === height) break;`,
+        `  height = newHeight;`,
+        `}`,
+      ].join("\n");
+    }
+
+    return `await ${evaluate(
+      `window.scrollBy(${parameters.deltaX ?? 0}, ${parameters.deltaY ?? 0})`
+    )};`;
+  }
+
+  private generateMouseClickAtStep(
+    parameters: Record<string, unknown>
+  ): string {
+    // Only emit options that differ from Playwright's defaults
+    const defaults: Record<string, unknown> = {
+      button: "left",
+      clickCount: 1,
+      delay: 0,
+    };
+    const options = Object.keys(defaults)
+      .filter(
+        (key) =>
+          parameters[key] !== undefined && parameters[key] !== defaults[key]
+      )
+      .map((key) => `${key}: ${JSON.stringify(parameters[key])}`);
+    return `await page.mouse.click(${parameters.x}, ${parameters.y}${
+      options.length ? `, { ${options.join(", ")} }` : ""
+    });`;
+  }
+
+  private generateMouseMovePathStep(
+    parameters: Record<string, unknown>
+  ): string {
+    const [start, ...rest] = parameters.points as { x: number; y: number }[];
+    const steps = [`await page.mouse.move(${start.x}, ${start.y});`];
+    if (parameters.holdButton) {
+      steps.push("await page.mouse.down();");
+    }
+    for (const point of rest) {
+      steps.push(
+        `await page.mouse.move(${point.x}, ${point.y}, { steps: ${
+          parameters.steps ?? 5
+        } });`
+      );
+    }
+    if (parameters.holdButton) {
+      steps.push("await page.mouse.up();");
+    }
+    return steps.join("\n");
+  }
+
+  private generateScreenshotStep(
+    parameters: Record<string, unknown>,
+    result: unknown
+  ): string {
     const path = parameters.path ? `\`${parameters.path}\`` : '""';
-    return `await page.screenshot({ path: ${path} });`;
+    const element =
+      this.getElementLocator(parameters, result) ??
+      (parameters.selector
+        ? formatLocator("page", parameters.selector as string)
+        : undefined);
+
+    const options = [`path: ${path}`];
+    if (parameters.type === "jpeg") {
+      options.push("type: 'jpeg'");
+      if (parameters.quality !== undefined) {
+        options.push(`quality: ${parameters.quality}`);
+      }
+    }
+    if (!element && parameters.clip) {
+      options.push(`clip: ${JSON.stringify(parameters.clip)}`);
+    } else if (!element && parameters.fullPage) {
+      options.push("fullPage: true");
+    }
+    const mask = (parameters.mask as string[] | undefined) ?? [];
+    if (mask.length > 0) {
+      options.push(
+        `mask: [${mask
+          .map((selector) => formatLocator("page", selector))
+          .join(", ")}]`
+      );
+    }
+    if (parameters.animations === "disabled") {
+      options.push("animations: 'disabled'");
+    }
+
+    return `await ${element ?? "page"}.screenshot({ ${options.join(", ")} });`;
+  }
+
+  private generateCompareScreenshotStep(
+    parameters: Record<string, unknown>
+  ): string {
+    const name = `${String(parameters.name ?? "screenshot").replace(
+      /\.png$/i,
+      ""
+    )}.png`;
+    const options: string[] = [];
+    const mask = (parameters.mask as string[] | undefined) ?? [];
+    if (mask.length > 0) {
+      options.push(
+        `mask: [${mask
+          .map((selector) => formatLocator("page", selector))
+          .join(", ")}]`
+      );
+    }
+    if (parameters.fullPage) {
+      options.push("fullPage: true");
+    }
+    if (
+      parameters.threshold !== undefined &&
+      parameters.threshold !== DEFAULT_DIFF_THRESHOLD
+    ) {
+      options.push(`threshold: ${parameters.threshold}`);
+    }
+    if (Number(parameters.maxDiffPercent) > 0) {
+      options.push(
+        `maxDiffPixelRatio: ${Number(parameters.maxDiffPercent) / 100}`
+      );
+    }
+
+    return `await expect(page).toHaveScreenshot(${JSON.stringify(name)}${
+      options.length ? `, { ${options.join(", ")} }` : ""
+    });`;
   }
 
   private generateSaveToFileStep(parameters: Record<string, unknown>): string {
@@ -478,31 +1566,26 @@ export class PlaywrightGenerator {
     return `const response = await page.waitForResponse(${url});`;
   }
 
-  private generateCustomUserAgentStep(
-    parameters: Record<string, unknown>
-  ): string {
-    const userAgent = parameters.userAgent
-      ? `\`${parameters.userAgent}\``
-      : '""';
-    return `await context.setUserAgent(${userAgent});`;
-  }
-
   private generateGetUserAgentStep(): string {
     return `const userAgent = await context.userAgent();`;
   }
 
   private generateGetVisibleTextStep(
-    parameters: Record<string, unknown>
+    parameters: Record<string, unknown>,
+    result: unknown
   ): string {
     const selector = parameters.selector ? `\`${parameters.selector}\`` : '""';
-    return `const visibleText = await page.locator(${selector}).textContent();`;
+    const scope = this.getFrameLocator(result) ?? "page";
+    return `const visibleText = await ${scope}.locator(${selector}).textContent();`;
   }
 
   private generateGetVisibleHtmlStep(
-    parameters: Record<string, unknown>
+    parameters: Record<string, unknown>,
+    result: unknown
   ): string {
     const selector = parameters.selector ? `\`${parameters.selector}\`` : '""';
-    return `const visibleHtml = await page.locator(${selector}).innerHTML();`;
+    const scope = this.getFrameLocator(result) ?? "page";
+    return `const visibleHtml = await ${scope}.locator(${selector}).innerHTML();`;
   }
 
   private generateListInteractiveElementsStep(): string {
@@ -514,10 +1597,14 @@ export class PlaywrightGenerator {
       .map((imp) => `import { ${imp} } from '@playwright/test';`)
       .join("\n");
 
+    const use = testCase.useOptions.length
+      ? `\ntest.use({ ${testCase.useOptions.join(", ")} });\n`
+      : "";
+
     return `
 
 ${imports}
-
+${use}
 test('${testCase.name}', async ({ page, context }) => {
   ${testCase.steps.join("\n")}
 });`;
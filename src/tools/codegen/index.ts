@@ -9,5 +9,8 @@ export * from "./types";
 // Export the merged service
 export * from "./generator";
 
+// Export the recorder of browser tool calls
+export * from "./codegenRecorder";
+
 // Export tools
 export * from "./codeGenTool";
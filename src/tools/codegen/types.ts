@@ -1,8 +1,15 @@
+import { ElementLocator } from "../common/types";
+
 export interface CodegenAction {
   toolName: string;
   parameters: Record<string, unknown>;
   timestamp: number;
   result?: unknown;
+  // Selector or locator code of the element the action resolved to
+  resolvedSelector?: string;
+  // Recorded from a browser tool call (see codegenRecorder.ts) and not yet
+  // matched by a recordAction call
+  autoRecorded?: boolean;
 }
 
 export interface CodegenSession {
@@ -11,12 +18,30 @@ export interface CodegenSession {
   startTime: number;
   endTime?: number;
   options?: CodegenOptions;
+  // Storage state file the browser session started from (signed in)
+  storageState?: string;
+  // HAR file the browser session replayed its network traffic from
+  har?: string;
+  // Trace files (trace.zip) recorded by the browser session during the session
+  traces?: string[];
+  // Selectors healed by the browser session, by original selector
+  healedSelectors?: Record<string, HealedSelector>;
+}
+
+/**
+ * Selector (or locator) that replaced a broken selector of the session
+ */
+export interface HealedSelector {
+  selector?: string;
+  locator?: ElementLocator;
 }
 
 export interface PlaywrightTestCase {
   name: string;
   steps: string[];
   imports: Set<string>;
+  // Entries of the test.use({ ... }) block
+  useOptions: string[];
 }
 
 export interface CodegenOptions {
@@ -1,9 +1,373 @@
-import { Browser, Page } from "playwright";
+import {
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  Page,
+  Route,
+} from "playwright";
+import type { OperationContext } from "@voltagent/core";
 
-export interface ToolContext {
-  // Browser tools related properties
+/**
+ * Browser engines supported by the Playwright tools
+ */
+export type BrowserEngine = "chromium" | "firefox" | "webkit";
+
+/**
+ * Options used when launching a browser and creating its context
+ */
+export interface BrowserLaunchConfig {
+  engine: BrowserEngine;
+  headless: boolean;
+  slowMo: number;
+  viewport: {
+    width: number;
+    height: number;
+  };
+  deviceScaleFactor: number;
+  executablePath?: string;
+  args: string[];
+  // Name of a saved storage state profile to start the context signed in
+  storageState?: string;
+  // HAR file to serve responses from instead of the network
+  replayFromHar?: string;
+  harNotFound?: "abort" | "fallback";
+  // Record a Playwright trace of every session automatically
+  traceAll?: boolean;
+  // Record a video of every tab along with the timeline of tool calls
+  recordVideo?: boolean;
+  // Connect to an already running browser instead of launching one
+  connectEndpoint?: string;
+  connectProtocol?: "cdp" | "playwright";
+  // Retry element tools on the closest match when their selector times out
+  selfHealing?: boolean;
+}
+
+/**
+ * HAR recording in progress in a browser session
+ */
+export interface HarRecording {
+  path: string;
+  urlFilter?: string;
+  startedAt: number;
+}
+
+/**
+ * Summary of a browser tab exposed to the agent
+ */
+export interface TabInfo {
+  id: string;
+  index: number;
+  url: string;
+  title: string;
+  active: boolean;
+}
+
+/**
+ * Structured (semantic) locator of an element, resolved through page.getByRole
+ * and related APIs. Exactly one of role, label, placeholder, text, testId and
+ * altText is used; nth and has/hasText filter the matches.
+ */
+export interface ElementLocator {
+  role?: string;
+  name?: string;
+  exact?: boolean;
+  label?: string;
+  placeholder?: string;
+  text?: string;
+  testId?: string;
+  altText?: string;
+  nth?: number;
+  has?: string;
+  hasText?: string;
+}
+
+/**
+ * Element of a page snapshot addressed by its short reference ID (e.g. e42).
+ * The locator (or selector) is a robust equivalent synthesized when the ref
+ * is used, for code generation.
+ */
+export interface ElementRef {
+  ref: string;
+  role: string;
+  name: string;
+  tabId?: string;
+  frame?: string;
+  locator?: ElementLocator;
+  selector?: string;
+}
+
+/**
+ * Numbered mark of an element in the last marked screenshot, with the box
+ * drawn around it (in CSS pixels of the page viewport)
+ */
+export interface ElementMark {
+  mark: number;
+  tabId?: string;
+  frame?: string;
+  type: string;
+  text: string;
+  box: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  selector?: string;
+  locator?: ElementLocator;
+  code: string;
+}
+
+/**
+ * What an element looked like when a selector or locator last found it,
+ * used to find it again when the selector breaks
+ */
+export interface ElementFingerprint {
+  tag?: string;
+  role?: string;
+  text?: string;
+  attributes: Record<string, string>;
+  x?: number;
+  y?: number;
+}
+
+/**
+ * Image returned in a tool result, passed to vision models as an image
+ * content part (see toolResultImages.ts)
+ */
+export interface ToolImage {
+  type: "image";
+  // Base64 encoded image data
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * Summary of a frame of the current tab exposed to the agent
+ */
+export interface FrameInfo {
+  index: number;
+  name: string;
+  url: string;
+  parentIndex?: number;
+  // Value of the frame parameter of the element tools targeting this frame
+  // (iframe selectors from the page down to the frame, separated by " >> ")
+  frame?: string;
+}
+
+/**
+ * Summary of a network route registered by the route tools
+ */
+export interface RouteInfo {
+  id: string;
+  action: "mock" | "abort" | "modify";
+  url: string;
+  isRegex: boolean;
+  mode: "once" | "always";
+  tabId?: string;
+  status?: number;
+  delay?: number;
+  hits: number;
+}
+
+/**
+ * Network route registered on a page
+ */
+export interface ActiveRoute extends RouteInfo {
+  page: Page;
+  matcher: string | RegExp;
+  handler: (route: Route) => Promise<void>;
+}
+
+/**
+ * Playwright tracing in progress in a browser session
+ */
+export interface TraceRecording {
+  title?: string;
+  screenshots: boolean;
+  snapshots: boolean;
+  sources: boolean;
+  auto: boolean;
+  startedAt: number;
+}
+
+/**
+ * Trace file (trace.zip) saved by a browser session
+ */
+export interface TraceFile {
+  path: string;
+  startedAt: number;
+  savedAt: number;
+}
+
+/**
+ * Video recorded for a tab
+ */
+export interface VideoFile {
+  tabId?: string;
+  path: string;
+  // Time the tab was opened, relative to the start of the recording
+  offsetMs: number;
+}
+
+/**
+ * Tool call made while recording video, timed relative to the start of the recording
+ */
+export interface VideoStep {
+  tool: string;
+  tabId?: string;
+  startMs: number;
+  endMs: number;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Video recording of a browser session and its sidecar timeline of tool calls
+ */
+export interface VideoRecording {
+  dir: string;
+  sidecarPath: string;
+  startedAt: number;
+  videos: VideoFile[];
+  steps: VideoStep[];
+}
+
+/**
+ * Type of a JavaScript dialog
+ */
+export type DialogType = "alert" | "confirm" | "prompt" | "beforeunload";
+
+/**
+ * How JavaScript dialogs are answered
+ */
+export interface DialogPolicy {
+  action: "accept" | "dismiss";
+  // Text entered into prompt dialogs when accepting
+  promptText?: string;
+  // "once" answers the next (matching) dialog only
+  mode: "once" | "always";
+  // Only answer dialogs of this type
+  dialogType?: DialogType;
+}
+
+/**
+ * JavaScript dialog that appeared in a tab and how it was answered
+ */
+export interface DialogRecord {
+  tabId?: string;
+  type: string;
+  message: string;
+  defaultValue?: string;
+  action: "accept" | "dismiss";
+  promptText?: string;
+  timestamp: string;
+}
+
+/**
+ * Network request captured by the network recorder
+ */
+export interface NetworkLogEntry {
+  id: string;
+  tabId?: string;
+  method: string;
+  url: string;
+  resourceType: string;
+  status?: number;
+  statusText?: string;
+  failed: boolean;
+  failureText?: string;
+  startedAt: string;
+  durationMs?: number;
+  requestHeaders: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  requestBody?: string;
+  responseBody?: string;
+}
+
+/**
+ * Browser state owned by a single browser session
+ */
+export interface BrowserState {
   browser?: Browser;
+  browserContext?: BrowserContext;
   page?: Page;
+  browserConfig?: BrowserLaunchConfig;
+
+  // Whether the browser was connected to (rather than launched) and whether
+  // the agent created the browser context. What the agent does not own is
+  // left open when the session is closed.
+  connected?: boolean;
+  ownsContext?: boolean;
+
+  // Extra options applied on top of the launch config when creating the context
+  contextOptions?: BrowserContextOptions;
+  storageStateProfile?: string;
+  harRecording?: HarRecording;
+
+  // Tab management properties
+  tabs?: Map<string, Page>;
+  activeTabId?: string;
+  nextTabNumber?: number;
+
+  // Network routes registered by the route tools
+  routes?: Map<string, ActiveRoute>;
+  nextRouteNumber?: number;
+
+  // Element references of the last page snapshot (see pageSnapshot.ts)
+  elementRefs?: Map<string, ElementRef>;
+
+  // Element marks of the last marked screenshot (see setOfMarks.ts)
+  elementMarks?: Map<number, ElementMark>;
+
+  // Fingerprints of the elements found by each selector (see selectorHealer.ts)
+  elementFingerprints?: Map<string, ElementFingerprint>;
+
+  // Dialog policies and the dialogs that appeared (see dialogManager.ts)
+  dialogPolicies?: DialogPolicy[];
+  dialogLog?: DialogRecord[];
+
+  // Ring buffer of recent network requests (see networkRecorder.ts)
+  networkLog?: NetworkLogEntry[];
+  nextRequestNumber?: number;
+
+  // Playwright tracing (see traceRecorder.ts)
+  tracing?: TraceRecording;
+  traces?: TraceFile[];
+
+  // Video recording (see videoRecorder.ts)
+  videoRecording?: VideoRecording;
+}
+
+/**
+ * Isolated browser session, one per conversation
+ */
+export interface BrowserSession extends BrowserState {
+  id: string;
+  createdAt: number;
+  lastUsedAt: number;
+  // Code generation session recording the tool calls of the conversation
+  codegenSessionId?: string;
+}
+
+/**
+ * Summary of a live browser session
+ */
+export interface BrowserSessionInfo {
+  id: string;
+  engine?: BrowserEngine;
+  connected: boolean;
+  tabCount: number;
+  activeTabId?: string;
+  url?: string;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface ToolContext {
+  // Browser session properties (the session ID defaults to the conversation
+  // ID of operationContext.historyEntry)
+  browserSessionId?: string;
+  operationContext?: OperationContext;
 
   // Code generation properties
   codegenSessionId?: string;